@@ -1,6 +1,8 @@
 import { Img } from 'openimg/react'
 import { useRef } from 'react'
-import { Link, Form } from 'react-router'
+import { Link, Form, useRouteLoaderData } from 'react-router'
+import { type loader as rootLoader } from '#app/root.tsx'
+import { formatNight } from '#app/utils/events.ts'
 import { getUserImgSrc } from '#app/utils/misc.tsx'
 import { useUser } from '#app/utils/user.ts'
 import { Button } from './ui/button'
@@ -15,6 +17,13 @@ import { Icon } from './ui/icon'
 
 export function UserDropdown() {
 	const user = useUser()
+	const unreadMessages =
+		useRouteLoaderData<typeof rootLoader>('root')?.unreadDinnerGroupMessages ??
+		[]
+	const unreadCount = unreadMessages.reduce(
+		(total, { count }) => total + count,
+		0,
+	)
 	const formRef = useRef<HTMLFormElement>(null)
 	return (
 		<DropdownMenu>
@@ -24,7 +33,7 @@ export function UserDropdown() {
 						to={`/users/${user.username}`}
 						// this is for progressive enhancement
 						onClick={(e) => e.preventDefault()}
-						className="flex items-center gap-2"
+						className="relative flex items-center gap-2"
 					>
 						<Img
 							className="h-8 w-8 rounded-full object-cover"
@@ -36,6 +45,14 @@ export function UserDropdown() {
 						<span className="text-body-sm font-bold">
 							{user.name ?? user.username}
 						</span>
+						{unreadCount > 0 ? (
+							<span
+								className="absolute -right-2 -top-2 flex h-5 min-w-5 items-center justify-center rounded-full bg-destructive px-1 text-xs font-bold text-destructive-foreground"
+								aria-label={`${unreadCount} unread messages`}
+							>
+								{unreadCount}
+							</span>
+						) : null}
 					</Link>
 				</Button>
 			</DropdownMenuTrigger>
@@ -56,12 +73,22 @@ export function UserDropdown() {
 						</Link>
 					</DropdownMenuItem>
 					<DropdownMenuItem asChild>
-						<Link prefetch="intent" to={`/users/${user.username}/restaurants`}>
+						<Link prefetch="intent" to="/events">
 							<Icon className="text-body-md" name="magnifying-glass">
-								Restaurants
+								Events
 							</Icon>
 						</Link>
 					</DropdownMenuItem>
+					{unreadMessages.map((unread) => (
+						<DropdownMenuItem key={unread.dinnerGroupId} asChild>
+							<Link prefetch="intent" to={`/dinners/${unread.dinnerGroupId}`}>
+								<Icon className="text-body-md" name="envelope-closed">
+									{unread.restaurantName} ({formatNight(unread.date)}):{' '}
+									{unread.count} new
+								</Icon>
+							</Link>
+						</DropdownMenuItem>
+					))}
 					<Form action="/logout" method="POST" ref={formRef}>
 						<DropdownMenuItem asChild>
 							<button type="submit" className="w-full">
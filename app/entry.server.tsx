@@ -13,6 +13,7 @@ import {
 	type HandleDocumentRequestFunction,
 } from 'react-router'
 import { getEnv, init } from './utils/env.server.ts'
+import { startJobWorker } from './utils/jobs.server.ts'
 import { getInstanceInfo } from './utils/litefs.server.ts'
 import { NonceProvider } from './utils/nonce-provider.ts'
 import { makeTimings } from './utils/timing.server.ts'
@@ -20,6 +21,7 @@ import { makeTimings } from './utils/timing.server.ts'
 export const streamTimeout = 5000
 
 init()
+if (process.env.NODE_ENV !== 'test') startJobWorker()
 global.ENV = getEnv()
 
 const MODE = process.env.NODE_ENV ?? 'development'
@@ -78,7 +80,11 @@ export default async function handleRequest(...args: DocRequestArgs) {
 									],
 									'font-src': ["'self'"],
 									'frame-src': ["'self'"],
-									'img-src': ["'self'", 'data:'],
+									'img-src': [
+										"'self'",
+										'data:',
+										new URL(ENV.MAP_TILE_URL).origin,
+									],
 									'script-src': [
 										"'strict-dynamic'",
 										"'self'",
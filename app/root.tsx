@@ -31,6 +31,7 @@ import tailwindStyleSheetUrl from './styles/tailwind.css?url'
 import { getUserId, logout } from './utils/auth.server.ts'
 import { ClientHintCheck, getHints } from './utils/client-hints.tsx'
 import { prisma } from './utils/db.server.ts'
+import { getUnreadDinnerGroupMessages } from './utils/dinner-group-chat.server.ts'
 import { getEnv } from './utils/env.server.ts'
 import { pipeHeaders } from './utils/headers.server.ts'
 import { honeypot } from './utils/honeypot.server.ts'
@@ -105,12 +106,20 @@ export async function loader({ request }: Route.LoaderArgs) {
 		// them in the database. Maybe they were deleted? Let's log them out.
 		await logout({ request, redirectTo: '/' })
 	}
+	const unreadDinnerGroupMessages = user
+		? await time(() => getUnreadDinnerGroupMessages(user.id), {
+				timings,
+				type: 'find unread messages',
+				desc: 'find unread dinner group messages in root',
+			})
+		: []
 	const { toast, headers: toastHeaders } = await getToast(request)
 	const honeyProps = await honeypot.getInputProps()
 
 	return data(
 		{
 			user,
+			unreadDinnerGroupMessages,
 			requestInfo: {
 				hints: getHints(request),
 				origin: getDomainUrl(request),
@@ -0,0 +1,88 @@
+import { type SEOHandle } from '@nasa-gcn/remix-seo'
+import { Link } from 'react-router'
+import { GeneralErrorBoundary } from '#app/components/error-boundary.tsx'
+import { Spacer } from '#app/components/spacer.tsx'
+import { Button } from '#app/components/ui/button.tsx'
+import { Icon } from '#app/components/ui/icon.tsx'
+import { prisma } from '#app/utils/db.server.ts'
+import { formatEventDates } from '#app/utils/events.ts'
+import { requireUserWithRole } from '#app/utils/permissions.server.ts'
+import { type Route } from './+types/events.ts'
+
+export const handle: SEOHandle = {
+	getSitemapEntries: () => null,
+}
+
+export async function loader({ request }: Route.LoaderArgs) {
+	await requireUserWithRole(request, 'admin')
+	const events = await prisma.event.findMany({
+		orderBy: { startDate: 'desc' },
+		select: {
+			id: true,
+			slug: true,
+			name: true,
+			venueName: true,
+			address: true,
+			timezone: true,
+			startDate: true,
+			endDate: true,
+		},
+	})
+	return { events }
+}
+
+export default function EventsAdminRoute({ loaderData }: Route.ComponentProps) {
+	return (
+		<div className="container">
+			<div className="flex items-center justify-between gap-4">
+				<h1 className="text-h1">Events Admin</h1>
+				<Button asChild>
+					<Link to="new">
+						<Icon name="plus">New event</Icon>
+					</Link>
+				</Button>
+			</div>
+			<Spacer size="2xs" />
+			{loaderData.events.length ? (
+				<ul className="flex flex-col gap-4">
+					{loaderData.events.map((event) => (
+						<li
+							key={event.id}
+							className="flex items-center justify-between gap-4 rounded-lg border border-muted-foreground p-4"
+						>
+							<div className="flex flex-col gap-1">
+								<span className="font-semibold">{event.name}</span>
+								<span className="text-sm text-muted-foreground">
+									{event.venueName}, {event.address}
+								</span>
+								<span className="text-sm text-muted-foreground">
+									{formatEventDates(event)} ({event.timezone})
+								</span>
+							</div>
+							<Link
+								to={`/events/${event.slug}/restaurants`}
+								className="font-mono text-sm"
+							>
+								/events/{event.slug}
+							</Link>
+						</li>
+					))}
+				</ul>
+			) : (
+				<p className="text-muted-foreground">No events have been created yet</p>
+			)}
+		</div>
+	)
+}
+
+export function ErrorBoundary() {
+	return (
+		<GeneralErrorBoundary
+			statusHandlers={{
+				403: ({ error }) => (
+					<p>You are not allowed to do that: {error?.data.message}</p>
+				),
+			}}
+		/>
+	)
+}
@@ -0,0 +1,215 @@
+import { getFormProps, getInputProps, useForm } from '@conform-to/react'
+import { getZodConstraint, parseWithZod } from '@conform-to/zod'
+import { type SEOHandle } from '@nasa-gcn/remix-seo'
+import { data, Form } from 'react-router'
+import { z } from 'zod'
+import { GeneralErrorBoundary } from '#app/components/error-boundary.tsx'
+import { ErrorList, Field } from '#app/components/forms.tsx'
+import { Spacer } from '#app/components/spacer.tsx'
+import { StatusButton } from '#app/components/ui/status-button.tsx'
+import { prisma } from '#app/utils/db.server.ts'
+import { useIsPending } from '#app/utils/misc.tsx'
+import { requireUserWithRole } from '#app/utils/permissions.server.ts'
+import { redirectWithToast } from '#app/utils/toast.server.ts'
+import { type Route } from './+types/events_.new.ts'
+
+export const handle: SEOHandle = {
+	getSitemapEntries: () => null,
+}
+
+function isValidTimeZone(timeZone: string) {
+	try {
+		new Intl.DateTimeFormat('en-US', { timeZone })
+		return true
+	} catch {
+		return false
+	}
+}
+
+const EventSchema = z
+	.object({
+		name: z.string().min(1).max(100),
+		slug: z
+			.string()
+			.min(1)
+			.max(50)
+			.regex(/^[a-z0-9-]+$/, {
+				message: 'Slug can only include lowercase letters, numbers and dashes',
+			}),
+		venueName: z.string().min(1).max(100),
+		address: z.string().min(1).max(200),
+		lat: z.number().min(-90).max(90),
+		lng: z.number().min(-180).max(180),
+		startDate: z.date(),
+		endDate: z.date(),
+		timezone: z.string().refine(isValidTimeZone, {
+			message: 'Must be an IANA time zone, e.g. America/Denver',
+		}),
+	})
+	.superRefine(({ startDate, endDate }, ctx) => {
+		if (endDate < startDate) {
+			ctx.addIssue({
+				path: ['endDate'],
+				code: z.ZodIssueCode.custom,
+				message: 'The event must end on or after its start date',
+			})
+		}
+	})
+
+export async function loader({ request }: Route.LoaderArgs) {
+	await requireUserWithRole(request, 'admin')
+	return {}
+}
+
+export async function action({ request }: Route.ActionArgs) {
+	await requireUserWithRole(request, 'admin')
+	const formData = await request.formData()
+	const submission = await parseWithZod(formData, {
+		schema: EventSchema.superRefine(async ({ slug }, ctx) => {
+			const existingEvent = await prisma.event.findUnique({
+				where: { slug },
+				select: { id: true },
+			})
+			if (existingEvent) {
+				ctx.addIssue({
+					path: ['slug'],
+					code: z.ZodIssueCode.custom,
+					message: 'An event already exists with this slug',
+				})
+			}
+		}),
+		async: true,
+	})
+	if (submission.status !== 'success') {
+		return data(
+			{ result: submission.reply() },
+			{ status: submission.status === 'error' ? 400 : 200 },
+		)
+	}
+
+	await prisma.event.create({
+		select: { id: true },
+		data: submission.value,
+	})
+
+	return redirectWithToast('/admin/events', {
+		type: 'success',
+		title: 'Event created',
+		description: `${submission.value.name} is ready for dinner plans.`,
+	})
+}
+
+export default function NewEventRoute({ actionData }: Route.ComponentProps) {
+	const isPending = useIsPending()
+	const [form, fields] = useForm({
+		id: 'new-event',
+		constraint: getZodConstraint(EventSchema),
+		lastResult: actionData?.result,
+		onValidate({ formData }) {
+			return parseWithZod(formData, { schema: EventSchema })
+		},
+		shouldRevalidate: 'onBlur',
+	})
+
+	return (
+		<div className="container max-w-3xl">
+			<h1 className="text-h1">New Event</h1>
+			<Spacer size="2xs" />
+			<Form method="POST" {...getFormProps(form)}>
+				<div className="grid grid-cols-6 gap-x-10">
+					<Field
+						className="col-span-3"
+						labelProps={{ htmlFor: fields.name.id, children: 'Name' }}
+						inputProps={{
+							autoFocus: true,
+							...getInputProps(fields.name, { type: 'text' }),
+						}}
+						errors={fields.name.errors}
+					/>
+					<Field
+						className="col-span-3"
+						labelProps={{ htmlFor: fields.slug.id, children: 'Slug' }}
+						inputProps={getInputProps(fields.slug, { type: 'text' })}
+						errors={fields.slug.errors}
+					/>
+					<Field
+						className="col-span-3"
+						labelProps={{ htmlFor: fields.venueName.id, children: 'Venue' }}
+						inputProps={getInputProps(fields.venueName, { type: 'text' })}
+						errors={fields.venueName.errors}
+					/>
+					<Field
+						className="col-span-3"
+						labelProps={{ htmlFor: fields.address.id, children: 'Address' }}
+						inputProps={getInputProps(fields.address, { type: 'text' })}
+						errors={fields.address.errors}
+					/>
+					<Field
+						className="col-span-3"
+						labelProps={{ htmlFor: fields.lat.id, children: 'Latitude' }}
+						inputProps={{
+							...getInputProps(fields.lat, { type: 'number' }),
+							step: 'any',
+						}}
+						errors={fields.lat.errors}
+					/>
+					<Field
+						className="col-span-3"
+						labelProps={{ htmlFor: fields.lng.id, children: 'Longitude' }}
+						inputProps={{
+							...getInputProps(fields.lng, { type: 'number' }),
+							step: 'any',
+						}}
+						errors={fields.lng.errors}
+					/>
+					<Field
+						className="col-span-2"
+						labelProps={{ htmlFor: fields.startDate.id, children: 'Starts' }}
+						inputProps={getInputProps(fields.startDate, { type: 'date' })}
+						errors={fields.startDate.errors}
+					/>
+					<Field
+						className="col-span-2"
+						labelProps={{ htmlFor: fields.endDate.id, children: 'Ends' }}
+						inputProps={getInputProps(fields.endDate, { type: 'date' })}
+						errors={fields.endDate.errors}
+					/>
+					<Field
+						className="col-span-2"
+						labelProps={{ htmlFor: fields.timezone.id, children: 'Time zone' }}
+						inputProps={{
+							...getInputProps(fields.timezone, { type: 'text' }),
+							placeholder: 'America/Denver',
+						}}
+						errors={fields.timezone.errors}
+					/>
+				</div>
+
+				<ErrorList errors={form.errors} id={form.errorId} />
+
+				<div className="mt-8 flex justify-center">
+					<StatusButton
+						type="submit"
+						size="wide"
+						status={isPending ? 'pending' : (form.status ?? 'idle')}
+						disabled={isPending}
+					>
+						Create event
+					</StatusButton>
+				</div>
+			</Form>
+		</div>
+	)
+}
+
+export function ErrorBoundary() {
+	return (
+		<GeneralErrorBoundary
+			statusHandlers={{
+				403: ({ error }) => (
+					<p>You are not allowed to do that: {error?.data.message}</p>
+				),
+			}}
+		/>
+	)
+}
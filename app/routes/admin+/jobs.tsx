@@ -0,0 +1,251 @@
+import { invariantResponse } from '@epic-web/invariant'
+import { type SEOHandle } from '@nasa-gcn/remix-seo'
+import { formatDistanceToNow } from 'date-fns'
+import { Form, Link, useSearchParams } from 'react-router'
+import { GeneralErrorBoundary } from '#app/components/error-boundary.tsx'
+import { Spacer } from '#app/components/spacer.tsx'
+import { Button } from '#app/components/ui/button.tsx'
+import { prisma } from '#app/utils/db.server.ts'
+import {
+	enqueueJob,
+	jobDefinitions,
+	type JobName,
+	type JobStatus,
+} from '#app/utils/jobs.server.ts'
+import { getInstanceInfo } from '#app/utils/litefs.server.ts'
+import { cn } from '#app/utils/misc.tsx'
+import { requireUserWithRole } from '#app/utils/permissions.server.ts'
+import { type Route } from './+types/jobs.ts'
+
+export const handle: SEOHandle = {
+	getSitemapEntries: () => null,
+}
+
+const JOB_STATUSES: Array<JobStatus> = [
+	'pending',
+	'running',
+	'completed',
+	'failed',
+]
+const JOB_LIMIT = 100
+
+function isJobName(name: unknown): name is JobName {
+	return typeof name === 'string' && Object.hasOwn(jobDefinitions, name)
+}
+
+export async function loader({ request }: Route.LoaderArgs) {
+	await requireUserWithRole(request, 'admin')
+	const status = new URL(request.url).searchParams.get('status') ?? ''
+
+	const [jobs, counts, { primaryInstance }] = await Promise.all([
+		prisma.job.findMany({
+			where: JOB_STATUSES.includes(status as JobStatus) ? { status } : {},
+			orderBy: { runAt: 'desc' },
+			take: JOB_LIMIT,
+			select: {
+				id: true,
+				name: true,
+				status: true,
+				runAt: true,
+				attempts: true,
+				maxAttempts: true,
+				lastError: true,
+				finishedAt: true,
+			},
+		}),
+		prisma.job.groupBy({ by: ['status'], _count: true }),
+		getInstanceInfo(),
+	])
+
+	const nextRuns = await prisma.job.groupBy({
+		by: ['name'],
+		where: { status: 'pending' },
+		_min: { runAt: true },
+	})
+	const definitions = Object.entries(jobDefinitions).map(
+		([name, { description }]) => ({
+			name,
+			description,
+			nextRunAt: nextRuns.find((run) => run.name === name)?._min.runAt ?? null,
+		}),
+	)
+
+	return {
+		jobs,
+		definitions,
+		primaryInstance,
+		counts: Object.fromEntries(
+			counts.map((count) => [count.status, count._count]),
+		),
+	}
+}
+
+export async function action({ request }: Route.ActionArgs) {
+	await requireUserWithRole(request, 'admin')
+	const formData = await request.formData()
+	const intent = formData.get('intent')
+
+	switch (intent) {
+		case 'run': {
+			const name = formData.get('name')
+			invariantResponse(isJobName(name), 'Unknown job', { status: 400 })
+			await enqueueJob(name)
+			break
+		}
+		case 'retry': {
+			const jobId = formData.get('jobId')
+			invariantResponse(typeof jobId === 'string', 'jobId must be a string')
+			await prisma.job.update({
+				where: { id: jobId, status: 'failed' },
+				data: {
+					status: 'pending',
+					runAt: new Date(),
+					attempts: 0,
+					finishedAt: null,
+				},
+			})
+			break
+		}
+		default: {
+			throw new Error(`Unknown intent: ${intent}`)
+		}
+	}
+	return { success: true }
+}
+
+const statusClassNames: Record<string, string> = {
+	pending: 'text-muted-foreground',
+	running: 'text-foreground',
+	completed: 'text-foreground',
+	failed: 'text-foreground-destructive',
+}
+
+export default function JobsAdminRoute({ loaderData }: Route.ComponentProps) {
+	const [searchParams] = useSearchParams()
+	const status = searchParams.get('status')
+
+	return (
+		<div className="container">
+			<h1 className="text-h1">Jobs Admin</h1>
+			<p className="text-muted-foreground">
+				Jobs run on the primary instance ({loaderData.primaryInstance}).
+			</p>
+			<Spacer size="2xs" />
+			<ul className="flex flex-col gap-4">
+				{loaderData.definitions.map((definition) => (
+					<li
+						key={definition.name}
+						className="flex items-center justify-between gap-4 rounded-lg border border-muted-foreground p-4"
+					>
+						<div className="flex flex-col gap-1">
+							<span className="font-mono font-semibold">{definition.name}</span>
+							<span className="text-sm text-muted-foreground">
+								{definition.description}
+							</span>
+							<span className="text-sm text-muted-foreground">
+								{definition.nextRunAt
+									? `Next run ${formatRunAt(definition.nextRunAt)}`
+									: 'Not scheduled yet'}
+							</span>
+						</div>
+						<Form method="POST">
+							<input type="hidden" name="name" value={definition.name} />
+							<Button
+								type="submit"
+								name="intent"
+								value="run"
+								variant="secondary"
+								size="sm"
+							>
+								Run now
+							</Button>
+						</Form>
+					</li>
+				))}
+			</ul>
+			<Spacer size="2xs" />
+			<nav className="flex flex-wrap gap-4">
+				{[null, ...JOB_STATUSES].map((value) => (
+					<Link
+						key={value ?? 'all'}
+						to={value ? `?status=${value}` : '.'}
+						className={cn(
+							'underline-offset-4',
+							status === value ? 'font-semibold underline' : null,
+						)}
+					>
+						{value ?? 'all'}
+						{value ? ` (${loaderData.counts[value] ?? 0})` : null}
+					</Link>
+				))}
+			</nav>
+			<Spacer size="4xs" />
+			{loaderData.jobs.length ? (
+				<ul className="flex flex-col gap-2">
+					{loaderData.jobs.map((job) => (
+						<li
+							key={job.id}
+							className="flex flex-col gap-2 border-b border-muted py-2"
+						>
+							<div className="flex items-center justify-between gap-4">
+								<div className="flex flex-wrap items-baseline gap-x-4">
+									<span className="font-mono">{job.name}</span>
+									<span className={cn('text-sm', statusClassNames[job.status])}>
+										{job.status}
+									</span>
+									<span className="text-sm text-muted-foreground">
+										{job.finishedAt
+											? `finished ${formatRunAt(job.finishedAt)}`
+											: `runs ${formatRunAt(job.runAt)}`}
+										, attempt {job.attempts} of {job.maxAttempts}
+									</span>
+								</div>
+								{job.status === 'failed' ? (
+									<Form method="POST">
+										<input type="hidden" name="jobId" value={job.id} />
+										<Button
+											type="submit"
+											name="intent"
+											value="retry"
+											variant="secondary"
+											size="sm"
+										>
+											Retry
+										</Button>
+									</Form>
+								) : null}
+							</div>
+							{job.lastError ? (
+								<details>
+									<summary className="text-sm text-foreground-destructive">
+										{job.lastError.split('\n')[0]}
+									</summary>
+									<pre className="overflow-x-auto text-xs">{job.lastError}</pre>
+								</details>
+							) : null}
+						</li>
+					))}
+				</ul>
+			) : (
+				<p className="text-muted-foreground">No jobs here</p>
+			)}
+		</div>
+	)
+}
+
+function formatRunAt(date: Date) {
+	const distance = formatDistanceToNow(date)
+	return date.getTime() > Date.now() ? `in ${distance}` : `${distance} ago`
+}
+
+export function ErrorBoundary() {
+	return (
+		<GeneralErrorBoundary
+			statusHandlers={{
+				403: ({ error }) => (
+					<p>You are not allowed to do that: {error?.data.message}</p>
+				),
+			}}
+		/>
+	)
+}
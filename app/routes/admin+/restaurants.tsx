@@ -0,0 +1,338 @@
+import { invariantResponse } from '@epic-web/invariant'
+import { type SEOHandle } from '@nasa-gcn/remix-seo'
+import { Form, useNavigation } from 'react-router'
+import { z } from 'zod'
+import { GeneralErrorBoundary } from '#app/components/error-boundary.tsx'
+import { Spacer } from '#app/components/spacer.tsx'
+import { Input } from '#app/components/ui/input.tsx'
+import { StatusButton } from '#app/components/ui/status-button.tsx'
+import { prisma } from '#app/utils/db.server.ts'
+import {
+	type OpeningHours,
+	parseOpeningHours,
+	WEEKDAYS,
+} from '#app/utils/opening-hours.ts'
+import { requireUserWithRole } from '#app/utils/permissions.server.ts'
+import {
+	CUISINES,
+	DIETARY_OPTIONS,
+	isCuisine,
+	isDietaryOption,
+	parseCuisines,
+	parseDietaryOptions,
+} from '#app/utils/restaurant-tags.ts'
+import {
+	updateRestaurantOpeningHours,
+	updateRestaurantTags,
+} from '#app/utils/restaurants.server.ts'
+import { type Route } from './+types/restaurants.ts'
+
+export const handle: SEOHandle = {
+	getSitemapEntries: () => null,
+}
+
+const RESTAURANT_LIMIT = 50
+
+const TimeSchema = z
+	.string()
+	.regex(/^([01]\d|2[0-3]):[0-5]\d$/)
+	.or(z.literal(''))
+
+const RestaurantAdminSchema = z.discriminatedUnion('intent', [
+	z.object({
+		intent: z.literal('tags'),
+		restaurantId: z.string(),
+		cuisines: z.array(z.string().refine(isCuisine)),
+		dietaryOptions: z.array(z.string().refine(isDietaryOption)),
+	}),
+	z.object({
+		intent: z.literal('hours'),
+		restaurantId: z.string(),
+		opens: z.array(TimeSchema).length(WEEKDAYS.length),
+		closes: z.array(TimeSchema).length(WEEKDAYS.length),
+	}),
+])
+
+/**
+ * One row per weekday. A day without both times is closed, and a close
+ * earlier than the open runs past midnight into the next day.
+ */
+function toOpeningHours(opens: Array<string>, closes: Array<string>) {
+	const hours: OpeningHours = []
+	opens.forEach((open, day) => {
+		const close = closes[day]
+		if (!open || !close) return
+		hours.push({
+			open: { day, time: open },
+			close: { day: close <= open ? (day + 1) % 7 : day, time: close },
+		})
+	})
+	return hours
+}
+
+/**
+ * The first period that opens on each weekday, to fill in the form.
+ */
+function getHoursByDay(hours: OpeningHours | null) {
+	return WEEKDAYS.map((_, day) => {
+		const period = hours?.find(({ open }) => open.day === day)
+		return { open: period?.open.time ?? '', close: period?.close?.time ?? '' }
+	})
+}
+
+export async function loader({ request }: Route.LoaderArgs) {
+	await requireUserWithRole(request, 'admin')
+	const query = new URL(request.url).searchParams.get('q') ?? ''
+
+	const restaurants = await prisma.restaurant.findMany({
+		where: query ? { name: { contains: query } } : {},
+		orderBy: { name: 'asc' },
+		take: RESTAURANT_LIMIT,
+		select: {
+			id: true,
+			name: true,
+			address: true,
+			cuisines: true,
+			dietaryOptions: true,
+			tagsEditedAt: true,
+			openingHours: true,
+			openingHoursEditedAt: true,
+		},
+	})
+
+	return {
+		query,
+		restaurants: restaurants.map((restaurant) => ({
+			...restaurant,
+			cuisines: parseCuisines(restaurant.cuisines),
+			dietaryOptions: parseDietaryOptions(restaurant.dietaryOptions),
+			hoursByDay: getHoursByDay(parseOpeningHours(restaurant.openingHours)),
+		})),
+	}
+}
+
+export async function action({ request }: Route.ActionArgs) {
+	await requireUserWithRole(request, 'admin')
+	const formData = await request.formData()
+	const result = RestaurantAdminSchema.safeParse({
+		intent: formData.get('intent'),
+		restaurantId: formData.get('restaurantId'),
+		cuisines: formData.getAll('cuisines'),
+		dietaryOptions: formData.getAll('dietaryOptions'),
+		opens: formData.getAll('opens'),
+		closes: formData.getAll('closes'),
+	})
+	invariantResponse(result.success, 'Invalid restaurant details', {
+		status: 400,
+	})
+
+	switch (result.data.intent) {
+		case 'tags': {
+			const { restaurantId, cuisines, dietaryOptions } = result.data
+			await updateRestaurantTags(restaurantId, { cuisines, dietaryOptions })
+			break
+		}
+		case 'hours': {
+			const { restaurantId, opens, closes } = result.data
+			await updateRestaurantOpeningHours(
+				restaurantId,
+				toOpeningHours(opens, closes),
+			)
+			break
+		}
+	}
+	return { success: true }
+}
+
+export default function RestaurantsAdminRoute({
+	loaderData,
+}: Route.ComponentProps) {
+	const navigation = useNavigation()
+	const savingRestaurantId = navigation.formData?.get('restaurantId')
+	const savingIntent = navigation.formData?.get('intent')
+
+	return (
+		<div className="container">
+			<h1 className="text-h1">Restaurants Admin</h1>
+			<p className="text-muted-foreground">
+				Cuisines, dietary options and opening hours come from the restaurant
+				provider until they're edited here.
+			</p>
+			<Spacer size="2xs" />
+			<Form method="GET" className="flex max-w-md gap-2">
+				<Input
+					type="search"
+					name="q"
+					aria-label="Search restaurants"
+					placeholder="Search restaurants"
+					defaultValue={loaderData.query}
+				/>
+			</Form>
+			<Spacer size="2xs" />
+			{loaderData.restaurants.length ? (
+				<ul className="flex flex-col gap-4">
+					{loaderData.restaurants.map((restaurant) => (
+						<li
+							key={restaurant.id}
+							className="rounded-lg border border-muted-foreground p-4"
+						>
+							<div className="flex flex-col gap-1">
+								<span className="font-semibold">{restaurant.name}</span>
+								<span className="text-sm text-muted-foreground">
+									{restaurant.address ?? 'No address'}
+									{restaurant.tagsEditedAt || restaurant.openingHoursEditedAt
+										? ' · Edited by an admin'
+										: null}
+								</span>
+							</div>
+							<Spacer size="4xs" />
+							<Form method="POST" className="flex flex-col gap-3">
+								<input type="hidden" name="intent" value="tags" />
+								<input
+									type="hidden"
+									name="restaurantId"
+									value={restaurant.id}
+								/>
+								<TagCheckboxes
+									legend="Cuisines"
+									name="cuisines"
+									options={CUISINES}
+									checked={restaurant.cuisines}
+								/>
+								<TagCheckboxes
+									legend="Dietary options"
+									name="dietaryOptions"
+									options={DIETARY_OPTIONS}
+									checked={restaurant.dietaryOptions}
+								/>
+								<StatusButton
+									type="submit"
+									variant="outline"
+									size="sm"
+									className="self-start"
+									status={
+										savingRestaurantId === restaurant.id &&
+										savingIntent === 'tags'
+											? 'pending'
+											: 'idle'
+									}
+								>
+									Save tags
+								</StatusButton>
+							</Form>
+							<Spacer size="4xs" />
+							<Form method="POST" className="flex flex-col gap-3">
+								<input type="hidden" name="intent" value="hours" />
+								<input
+									type="hidden"
+									name="restaurantId"
+									value={restaurant.id}
+								/>
+								<OpeningHoursInputs
+									name={restaurant.name}
+									hoursByDay={restaurant.hoursByDay}
+								/>
+								<StatusButton
+									type="submit"
+									variant="outline"
+									size="sm"
+									className="self-start"
+									status={
+										savingRestaurantId === restaurant.id &&
+										savingIntent === 'hours'
+											? 'pending'
+											: 'idle'
+									}
+								>
+									Save hours
+								</StatusButton>
+							</Form>
+						</li>
+					))}
+				</ul>
+			) : (
+				<p className="text-muted-foreground">No restaurants found</p>
+			)}
+		</div>
+	)
+}
+
+function TagCheckboxes({
+	legend,
+	name,
+	options,
+	checked,
+}: {
+	legend: string
+	name: string
+	options: ReadonlyArray<{ value: string; label: string }>
+	checked: ReadonlyArray<string>
+}) {
+	return (
+		<fieldset>
+			<legend className="mb-1 text-sm font-medium">{legend}</legend>
+			<div className="flex flex-wrap gap-x-4 gap-y-1">
+				{options.map((option) => (
+					<label key={option.value} className="flex items-center gap-1 text-sm">
+						<input
+							type="checkbox"
+							name={name}
+							value={option.value}
+							defaultChecked={checked.includes(option.value)}
+						/>
+						{option.label}
+					</label>
+				))}
+			</div>
+		</fieldset>
+	)
+}
+
+function OpeningHoursInputs({
+	name,
+	hoursByDay,
+}: {
+	name: string
+	hoursByDay: ReadonlyArray<{ open: string; close: string }>
+}) {
+	return (
+		<fieldset>
+			<legend className="mb-1 text-sm font-medium">
+				Opening hours (leave a day empty if closed)
+			</legend>
+			<div className="grid max-w-md grid-cols-[auto_1fr_1fr] items-center gap-x-2 gap-y-1">
+				{WEEKDAYS.map((weekday, day) => (
+					<div key={weekday} className="contents">
+						<span className="text-sm">{weekday}</span>
+						<input
+							type="time"
+							name="opens"
+							aria-label={`${name} opens on ${weekday}`}
+							defaultValue={hoursByDay[day]?.open}
+							className="rounded border border-input bg-background px-2 py-1 text-sm"
+						/>
+						<input
+							type="time"
+							name="closes"
+							aria-label={`${name} closes on ${weekday}`}
+							defaultValue={hoursByDay[day]?.close}
+							className="rounded border border-input bg-background px-2 py-1 text-sm"
+						/>
+					</div>
+				))}
+			</div>
+		</fieldset>
+	)
+}
+
+export function ErrorBoundary() {
+	return (
+		<GeneralErrorBoundary
+			statusHandlers={{
+				403: ({ error }) => (
+					<p>You are not allowed to do that: {error?.data.message}</p>
+				),
+			}}
+		/>
+	)
+}
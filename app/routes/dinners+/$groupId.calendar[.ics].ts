@@ -0,0 +1,24 @@
+import { invariantResponse } from '@epic-web/invariant'
+import { requireUserId } from '#app/utils/auth.server.ts'
+import {
+	calendarResponse,
+	createCalendar,
+	getDinnerCalendarEvents,
+} from '#app/utils/calendar.server.ts'
+import { getDomainUrl } from '#app/utils/misc.tsx'
+import { type Route } from './+types/$groupId.calendar[.ics].ts'
+
+export async function loader({ request, params }: Route.LoaderArgs) {
+	const userId = await requireUserId(request)
+	const events = await getDinnerCalendarEvents(userId, {
+		domain: getDomainUrl(request),
+		where: { id: params.groupId },
+	})
+	const [event] = events
+	invariantResponse(event, 'Not found', { status: 404 })
+
+	return calendarResponse(
+		createCalendar({ name: event.summary, events }),
+		'dinner.ics',
+	)
+}
@@ -0,0 +1,23 @@
+import { invariantResponse } from '@epic-web/invariant'
+import { eventStream } from 'remix-utils/sse/server'
+import { requireUserId } from '#app/utils/auth.server.ts'
+import { prisma } from '#app/utils/db.server.ts'
+import { subscribeToDinnerGroupMessages } from '#app/utils/dinner-group-updates.server.ts'
+import { type Route } from './+types/$groupId.messages.ts'
+
+export async function loader({ request, params }: Route.LoaderArgs) {
+	const userId = await requireUserId(request)
+	const attendee = await prisma.attendee.findUnique({
+		where: {
+			userId_dinnerGroupId: { userId, dinnerGroupId: params.groupId },
+		},
+		select: { id: true },
+	})
+	invariantResponse(attendee, 'Not found', { status: 404 })
+
+	return eventStream(request.signal, (send) => {
+		return subscribeToDinnerGroupMessages(params.groupId, () => {
+			send({ data: String(Date.now()) })
+		})
+	})
+}
@@ -0,0 +1,562 @@
+import { invariantResponse } from '@epic-web/invariant'
+import { formatDistanceToNow } from 'date-fns'
+import { Img } from 'openimg/react'
+import { useEffect } from 'react'
+import { data, Link, redirect, useFetcher, useRevalidator } from 'react-router'
+import { useEventSource } from 'remix-utils/sse/react'
+import { z } from 'zod'
+import { GeneralErrorBoundary } from '#app/components/error-boundary.tsx'
+import { Button } from '#app/components/ui/button.tsx'
+import { Input } from '#app/components/ui/input.tsx'
+import { StatusButton } from '#app/components/ui/status-button.tsx'
+import { requireUserId } from '#app/utils/auth.server.ts'
+import { prisma } from '#app/utils/db.server.ts'
+import {
+	markDinnerGroupMessagesRead,
+	sendDinnerGroupMessage,
+} from '#app/utils/dinner-group-chat.server.ts'
+import { DINNER_GROUP_MESSAGE_MAX_LENGTH } from '#app/utils/dinner-group-chat.ts'
+import { formatNight, formatTime } from '#app/utils/events.ts'
+import { getUserImgSrc } from '#app/utils/misc.tsx'
+import {
+	joinDinnerGroup,
+	joinWaitlist,
+	leaveDinnerGroup,
+	leaveWaitlist,
+} from '#app/utils/restaurants.server.ts'
+import { type Route } from './+types/$groupId.ts'
+
+const DinnerGroupActionSchema = z.discriminatedUnion('intent', [
+	z.object({
+		intent: z.enum([
+			'join',
+			'leave',
+			'join-waitlist',
+			'leave-waitlist',
+			'mark-messages-read',
+		]),
+	}),
+	z.object({
+		intent: z.literal('send-message'),
+		content: z
+			.string()
+			.trim()
+			.min(1, 'Message is required')
+			.max(DINNER_GROUP_MESSAGE_MAX_LENGTH, 'Message is too long'),
+	}),
+])
+
+// How many of the latest chat messages to show
+const MESSAGE_LIMIT = 100
+
+export async function loader({ request, params }: Route.LoaderArgs) {
+	const userId = await requireUserId(request)
+	const dinnerGroup = await prisma.dinnerGroup.findUnique({
+		where: { id: params.groupId },
+		select: {
+			id: true,
+			date: true,
+			reservationTime: true,
+			capacity: true,
+			notes: true,
+			organizerId: true,
+			event: { select: { slug: true, name: true } },
+			restaurant: {
+				select: { id: true, name: true, mapsUrl: true, photoRef: true },
+			},
+			attendees: {
+				orderBy: { createdAt: 'asc' },
+				select: {
+					user: {
+						select: {
+							id: true,
+							name: true,
+							username: true,
+							hideNameInDinners: true,
+							image: { select: { objectKey: true } },
+						},
+					},
+				},
+			},
+			waitlist: {
+				orderBy: { createdAt: 'asc' },
+				select: { userId: true },
+			},
+		},
+	})
+	invariantResponse(dinnerGroup, 'Dinner group not found', { status: 404 })
+
+	// People who hide their name in dinners only show up as an anonymous
+	// attendee to everyone but themselves, without even their id
+	const attendees = dinnerGroup.attendees.map(({ user }) => {
+		const isOrganizer = user.id === dinnerGroup.organizerId
+		return user.hideNameInDinners && user.id !== userId
+			? { isHidden: true as const, isOrganizer }
+			: {
+					id: user.id,
+					isHidden: false as const,
+					isOrganizer,
+					name: user.name,
+					username: user.username,
+					imageObjectKey: user.image?.objectKey,
+				}
+	})
+	const waitlistIndex = dinnerGroup.waitlist.findIndex(
+		(entry) => entry.userId === userId,
+	)
+	const isUserAttending = dinnerGroup.attendees.some(
+		({ user }) => user.id === userId,
+	)
+
+	// The chat is only for people going to the dinner
+	const latestMessages = isUserAttending
+		? await prisma.dinnerGroupMessage.findMany({
+				where: { dinnerGroupId: dinnerGroup.id },
+				orderBy: { createdAt: 'desc' },
+				take: MESSAGE_LIMIT,
+				select: {
+					id: true,
+					content: true,
+					createdAt: true,
+					user: {
+						select: {
+							id: true,
+							name: true,
+							username: true,
+							hideNameInDinners: true,
+						},
+					},
+				},
+			})
+		: []
+	const messages = latestMessages.reverse().map((message) => ({
+		id: message.id,
+		content: message.content,
+		timeAgo: formatDistanceToNow(message.createdAt),
+		isOwn: message.user.id === userId,
+		senderName:
+			message.user.hideNameInDinners && message.user.id !== userId
+				? null
+				: (message.user.name ?? message.user.username),
+	}))
+
+	return {
+		dinnerGroup: {
+			id: dinnerGroup.id,
+			date: dinnerGroup.date,
+			reservationTime: dinnerGroup.reservationTime,
+			capacity: dinnerGroup.capacity,
+			notes: dinnerGroup.notes,
+			event: dinnerGroup.event,
+			restaurant: dinnerGroup.restaurant,
+			waitlistCount: dinnerGroup.waitlist.length,
+		},
+		attendees,
+		messages,
+		isUserAttending,
+		userWaitlistPosition: waitlistIndex === -1 ? null : waitlistIndex + 1,
+	}
+}
+
+export async function action({ request, params }: Route.ActionArgs) {
+	const userId = await requireUserId(request)
+	const formData = await request.formData()
+	const result = DinnerGroupActionSchema.safeParse(Object.fromEntries(formData))
+	if (!result.success) {
+		return data(
+			{ status: 'error', error: result.error.issues[0]?.message } as const,
+			{ status: 400 },
+		)
+	}
+
+	const dinnerGroup = await prisma.dinnerGroup.findUnique({
+		where: { id: params.groupId },
+		select: {
+			eventId: true,
+			restaurantId: true,
+			date: true,
+			event: { select: { slug: true } },
+		},
+	})
+	invariantResponse(dinnerGroup, 'Dinner group not found', { status: 404 })
+
+	const { eventId, restaurantId, date } = dinnerGroup
+	switch (result.data.intent) {
+		case 'join': {
+			const joinResult = await joinDinnerGroup(userId, {
+				eventId,
+				date,
+				restaurantId,
+			})
+			if (joinResult.status === 'error') {
+				return data(joinResult, { status: 409 })
+			}
+			if (joinResult.warning) return joinResult
+			break
+		}
+		case 'leave': {
+			await leaveDinnerGroup(userId, { eventId, date })
+			// the group is gone once the last person leaves
+			const stillExists = await prisma.dinnerGroup.findUnique({
+				where: { id: params.groupId },
+				select: { id: true },
+			})
+			if (!stillExists) {
+				return redirect(
+					`/events/${dinnerGroup.event.slug}/restaurants?night=${date}`,
+				)
+			}
+			break
+		}
+		case 'join-waitlist': {
+			const waitlistResult = await joinWaitlist(userId, {
+				eventId,
+				date,
+				restaurantId,
+			})
+			if (waitlistResult.status === 'error') {
+				return data(waitlistResult, { status: 409 })
+			}
+			break
+		}
+		case 'leave-waitlist': {
+			await leaveWaitlist(userId, { eventId, date, restaurantId })
+			break
+		}
+		case 'send-message': {
+			const messageResult = await sendDinnerGroupMessage(
+				userId,
+				params.groupId,
+				result.data.content,
+			)
+			if (messageResult.status === 'error') {
+				return data(messageResult, { status: 403 })
+			}
+			break
+		}
+		case 'mark-messages-read': {
+			await markDinnerGroupMessagesRead(userId, params.groupId)
+			break
+		}
+	}
+
+	return { status: 'success' } as const
+}
+
+export default function DinnerGroupRoute({ loaderData }: Route.ComponentProps) {
+	const {
+		dinnerGroup,
+		attendees,
+		messages,
+		isUserAttending,
+		userWaitlistPosition,
+	} = loaderData
+	const { restaurant, event } = dinnerGroup
+
+	return (
+		<div className="container max-w-3xl py-8">
+			<Link
+				to={`/events/${event.slug}/restaurants?night=${dinnerGroup.date}`}
+				className="text-sm text-muted-foreground hover:underline"
+			>
+				← {event.name}
+			</Link>
+
+			<div className="mt-4 overflow-hidden rounded-lg bg-muted">
+				{restaurant.photoRef ? (
+					<img
+						src={`/resources/maps/photo?photoRef=${encodeURIComponent(restaurant.photoRef)}`}
+						alt={restaurant.name}
+						className="h-56 w-full object-cover"
+					/>
+				) : null}
+				<div className="flex flex-col gap-2 p-6">
+					<h1 className="text-3xl font-bold">{restaurant.name}</h1>
+					<p className="text-muted-foreground">
+						{formatNight(dinnerGroup.date)}
+						{dinnerGroup.reservationTime
+							? ` at ${formatTime(dinnerGroup.reservationTime)}`
+							: null}
+					</p>
+					<p className="text-sm">
+						{dinnerGroup.capacity !== null
+							? `${attendees.length}/${dinnerGroup.capacity} seats`
+							: `${attendees.length} attending`}
+						{dinnerGroup.waitlistCount > 0
+							? ` · ${dinnerGroup.waitlistCount} waiting`
+							: null}
+					</p>
+					{restaurant.mapsUrl ? (
+						<a
+							href={restaurant.mapsUrl}
+							target="_blank"
+							rel="noopener noreferrer"
+							className="text-sm text-blue-600 hover:underline"
+						>
+							Directions
+						</a>
+					) : null}
+					{isUserAttending ? (
+						<a
+							href={`/dinners/${dinnerGroup.id}/calendar.ics`}
+							download
+							className="text-sm text-blue-600 hover:underline"
+						>
+							Add to calendar
+						</a>
+					) : null}
+					{dinnerGroup.notes ? (
+						<p className="mt-2 whitespace-pre-wrap rounded-md bg-background p-4">
+							{dinnerGroup.notes}
+						</p>
+					) : null}
+				</div>
+			</div>
+
+			<section className="mt-8">
+				<h2 className="mb-4 text-2xl font-bold">Who's going</h2>
+				<ul className="grid grid-cols-2 gap-4 sm:grid-cols-3">
+					{attendees.map((attendee, index) => (
+						<li key={attendee.isHidden ? `hidden-${index}` : attendee.id}>
+							<AttendeeBadge attendee={attendee} />
+						</li>
+					))}
+				</ul>
+			</section>
+
+			<div className="mt-8">
+				<MembershipButton
+					isUserAttending={isUserAttending}
+					userWaitlistPosition={userWaitlistPosition}
+					isFull={
+						dinnerGroup.capacity !== null &&
+						attendees.length >= dinnerGroup.capacity
+					}
+				/>
+			</div>
+
+			{isUserAttending ? (
+				<ChatSection dinnerGroupId={dinnerGroup.id} messages={messages} />
+			) : null}
+		</div>
+	)
+}
+
+function AttendeeBadge({
+	attendee,
+}: {
+	attendee: Route.ComponentProps['loaderData']['attendees'][number]
+}) {
+	const { isOrganizer } = attendee
+	if (attendee.isHidden) {
+		return (
+			<div className="flex items-center gap-3 rounded-lg p-2">
+				<Img
+					src={getUserImgSrc(null)}
+					alt=""
+					className="h-12 w-12 rounded-full object-cover"
+					width={96}
+					height={96}
+				/>
+				<span className="text-muted-foreground">
+					Private attendee{isOrganizer ? ' (host)' : null}
+				</span>
+			</div>
+		)
+	}
+
+	const displayName = attendee.name ?? attendee.username
+	return (
+		<Link
+			to={`/users/${attendee.username}`}
+			prefetch="intent"
+			className="flex items-center gap-3 rounded-lg p-2 hover:bg-muted"
+		>
+			<Img
+				src={getUserImgSrc(attendee.imageObjectKey)}
+				alt={displayName}
+				className="h-12 w-12 rounded-full object-cover"
+				width={96}
+				height={96}
+			/>
+			<span className="truncate">
+				{displayName}
+				{isOrganizer ? ' (host)' : null}
+			</span>
+		</Link>
+	)
+}
+
+function MembershipButton({
+	isUserAttending,
+	userWaitlistPosition,
+	isFull,
+}: {
+	isUserAttending: boolean
+	userWaitlistPosition: number | null
+	isFull: boolean
+}) {
+	const fetcher = useFetcher<typeof action>()
+	const status = fetcher.state !== 'idle' ? 'pending' : 'idle'
+	const error =
+		fetcher.data && 'error' in fetcher.data ? fetcher.data.error : null
+	const warning =
+		fetcher.data && 'warning' in fetcher.data ? fetcher.data.warning : null
+
+	return (
+		<fetcher.Form method="POST" className="flex flex-col items-start gap-2">
+			{isUserAttending ? (
+				<StatusButton
+					type="submit"
+					name="intent"
+					value="leave"
+					variant="destructive"
+					status={status}
+				>
+					Leave
+				</StatusButton>
+			) : userWaitlistPosition !== null ? (
+				<>
+					<p className="text-sm text-muted-foreground">
+						You're #{userWaitlistPosition} on the waitlist
+					</p>
+					<StatusButton
+						type="submit"
+						name="intent"
+						value="leave-waitlist"
+						variant="outline"
+						status={status}
+					>
+						Leave waitlist
+					</StatusButton>
+				</>
+			) : isFull ? (
+				<StatusButton
+					type="submit"
+					name="intent"
+					value="join-waitlist"
+					variant="secondary"
+					status={status}
+				>
+					Join waitlist
+				</StatusButton>
+			) : (
+				<StatusButton type="submit" name="intent" value="join" status={status}>
+					Join
+				</StatusButton>
+			)}
+			{error ? (
+				<p className="text-sm text-foreground-destructive">{error}</p>
+			) : null}
+			{warning ? <p className="text-sm text-amber-700">{warning}</p> : null}
+		</fetcher.Form>
+	)
+}
+
+function ChatSection({
+	dinnerGroupId,
+	messages,
+}: {
+	dinnerGroupId: string
+	messages: Route.ComponentProps['loaderData']['messages']
+}) {
+	const messageFetcher = useFetcher<typeof action>()
+	const readFetcher = useFetcher<typeof action>()
+	const { revalidate } = useRevalidator()
+	const lastMessageEvent = useEventSource(`/dinners/${dinnerGroupId}/messages`)
+	const latestMessageId = messages.at(-1)?.id
+	const error =
+		messageFetcher.data && 'error' in messageFetcher.data
+			? messageFetcher.data.error
+			: null
+
+	useEffect(() => {
+		if (lastMessageEvent) void revalidate()
+	}, [lastMessageEvent, revalidate])
+
+	// Anything on screen counts as read
+	const { submit: submitRead } = readFetcher
+	useEffect(() => {
+		if (!latestMessageId) return
+		void submitRead({ intent: 'mark-messages-read' }, { method: 'POST' })
+	}, [latestMessageId, submitRead])
+
+	return (
+		<section className="mt-12">
+			<h2 className="mb-4 text-2xl font-bold">Chat</h2>
+			{messages.length ? (
+				<ul className="flex flex-col gap-3">
+					{messages.map((message) => (
+						<li
+							key={message.id}
+							className={
+								message.isOwn
+									? 'self-end rounded-lg bg-primary p-3 text-primary-foreground'
+									: 'self-start rounded-lg bg-muted p-3'
+							}
+						>
+							<p className="text-xs opacity-75">
+								{message.isOwn
+									? 'You'
+									: (message.senderName ?? 'Private attendee')}{' '}
+								· {message.timeAgo} ago
+							</p>
+							<p className="whitespace-pre-wrap">{message.content}</p>
+						</li>
+					))}
+				</ul>
+			) : (
+				<p className="text-muted-foreground">
+					No messages yet. Let everyone know if you're running late!
+				</p>
+			)}
+			<messageFetcher.Form
+				// reset the input once the message is sent
+				key={latestMessageId}
+				method="POST"
+				className="mt-4 flex gap-2"
+			>
+				<Input
+					name="content"
+					aria-label="Message"
+					placeholder="Write a message..."
+					maxLength={DINNER_GROUP_MESSAGE_MAX_LENGTH}
+					required
+				/>
+				<StatusButton
+					type="submit"
+					name="intent"
+					value="send-message"
+					status={messageFetcher.state !== 'idle' ? 'pending' : 'idle'}
+				>
+					Send
+				</StatusButton>
+			</messageFetcher.Form>
+			{error ? (
+				<p className="mt-2 text-sm text-foreground-destructive">{error}</p>
+			) : null}
+		</section>
+	)
+}
+
+export const meta: Route.MetaFunction = ({ data }) => {
+	const name = data?.dinnerGroup.restaurant.name ?? 'Dinner'
+	return [{ title: `${name} | Epic Notes` }]
+}
+
+export function ErrorBoundary() {
+	return (
+		<GeneralErrorBoundary
+			statusHandlers={{
+				404: () => (
+					<div className="flex flex-col items-center gap-4">
+						<p>This dinner group doesn't exist anymore</p>
+						<Button asChild variant="outline">
+							<Link to="/events">Find another dinner</Link>
+						</Button>
+					</div>
+				),
+			}}
+		/>
+	)
+}
@@ -0,0 +1,1430 @@
+import { invariant, invariantResponse } from '@epic-web/invariant'
+import { useEffect, useRef, useState } from 'react'
+import { type LoaderFunctionArgs, type ActionFunctionArgs, data, useLoaderData, useSearchParams, Link, useFetcher, useRevalidator } from 'react-router'
+import { useEventSource } from 'remix-utils/sse/react'
+import { z } from 'zod'
+import { requireUserId } from '#app/utils/auth.server'
+import { prisma } from '#app/utils/db.server'
+import { requireEvent } from '#app/utils/events.server'
+import { formatNight, formatTime, getDefaultNight, getEventNights } from '#app/utils/events'
+import { getTileUrl, metersPerPixel, MILES_TO_METERS, projectToPixels, TILE_SIZE } from '#app/utils/geo'
+import { formatOpeningHoursForDay, getDayOfWeek, isOpenAt, WEEKDAYS } from '#app/utils/opening-hours'
+import { CUISINES, DIETARY_OPTIONS, getCuisineLabel, getDietaryOptionLabel, isCuisine, isDietaryOption } from '#app/utils/restaurant-tags'
+import { favoriteRestaurant, getAllRestaurantDetails, joinDinnerGroup, joinWaitlist, leaveDinnerGroup, leaveWaitlist, removeDinnerGroupAttendee, requireDinnerGroupPermission, transferDinnerGroupHost, unfavoriteRestaurant, updateDinnerGroup, withRestaurantDetails, type RestaurantWithDetails } from '#app/utils/restaurants.server'
+import { cn } from '#app/utils/misc'
+import { GeneralErrorBoundary } from '#app/components/error-boundary'
+import { SelectField } from '#app/components/forms'
+import { StatusButton } from '#app/components/ui/status-button'
+import { Button } from '#app/components/ui/button'
+import { Card, CardContent, CardFooter } from '#app/components/ui/card'
+import { Input } from '#app/components/ui/input'
+import { Label } from '#app/components/ui/label'
+import { Textarea } from '#app/components/ui/textarea'
+import { ToggleGroup, ToggleGroupItem } from '#app/components/ui/toggle-group'
+import { Clock, Heart, Hotel, List, MapPin, Map, Minus, Plus, Star, Users } from 'lucide-react'
+
+// Zod schema for action validation
+const ActionSchema = z.object({
+  intent: z.enum([
+    'join',
+    'leave',
+    'update',
+    'join-waitlist',
+    'leave-waitlist',
+    'transfer-host',
+    'remove-attendee',
+    'favorite',
+    'unfavorite',
+  ]),
+  night: z.string(),
+  restaurantId: z.string().optional(),
+  dinnerGroupId: z.string().optional(),
+  attendeeId: z.string().optional(),
+  // Empty inputs clear the reservation time, capacity and notes
+  reservationTime: z
+    .union([z.literal(''), z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Time must be HH:mm')])
+    .optional(),
+  capacity: z
+    .union([z.literal(''), z.coerce.number().int().min(2).max(50)])
+    .optional(),
+  notes: z.string().max(500).optional(),
+})
+
+// Team ratings are 1–5 stars; anything else doesn't filter the list
+const TeamRatingSchema = z.coerce.number().int().min(1).max(5).nullable().catch(null)
+
+// How the nearby restaurants can be sorted, rating first by default
+const SORT_OPTIONS = [
+  { value: 'rating', label: 'Rating' },
+  { value: 'distance', label: 'Distance' },
+  { value: 'price', label: 'Price' },
+  { value: 'team-rating', label: 'Team rating' },
+  { value: 'popularity', label: 'Team popularity' },
+  { value: 'name', label: 'Name' },
+] as const
+
+type SortOption = (typeof SORT_OPTIONS)[number]['value']
+
+function isSortOption(value: string | null): value is SortOption {
+  return SORT_OPTIONS.some(option => option.value === value)
+}
+
+// Google's price levels, from $ to $$$$
+const PRICE_LEVELS = [1, 2, 3, 4]
+
+function parsePriceLevel(value: string | null) {
+  const priceLevel = value ? parseInt(value, 10) : NaN
+  return PRICE_LEVELS.includes(priceLevel) ? priceLevel : null
+}
+
+// How many more nearby restaurants each "Show more" adds
+const PAGE_SIZE = 15
+
+// Most restaurants to look up opening hours for while filtering by them
+const OPENING_HOURS_LOOKUP_LIMIT = 10
+
+function compareRestaurants(a: RestaurantWithDetails, b: RestaurantWithDetails, sort: SortOption) {
+  switch (sort) {
+    case 'distance':
+      return a.distance - b.distance
+    case 'price': {
+      // Cheapest first, with the ones we don't know the price of last
+      const priceDiff = (a.priceLevel ?? Infinity) - (b.priceLevel ?? Infinity)
+      if (priceDiff) return priceDiff
+      break
+    }
+    case 'team-rating': {
+      const teamRatingDiff = (b.teamRating ?? 0) - (a.teamRating ?? 0)
+      if (teamRatingDiff !== 0) return teamRatingDiff
+      const teamRatingCountDiff = b.teamRatingCount - a.teamRatingCount
+      if (teamRatingCountDiff !== 0) return teamRatingCountDiff
+      break
+    }
+    case 'popularity': {
+      const visitDiff = b.teamVisitCount - a.teamVisitCount
+      if (visitDiff !== 0) return visitDiff
+      break
+    }
+    case 'name':
+      return a.name.localeCompare(b.name)
+    case 'rating': {
+      const ratingDiff = (b.rating ?? 0) - (a.rating ?? 0)
+      if (ratingDiff !== 0) return ratingDiff
+      break
+    }
+  }
+  // Closest first as the tiebreaker
+  return a.distance - b.distance
+}
+
+export async function loader({ request, params }: LoaderFunctionArgs) {
+  const userId = await requireUserId(request)
+  const event = await requireEvent(params.slug)
+  
+  // Get URL search params for filtering
+  const url = new URL(request.url)
+  const distanceParam = url.searchParams.get('distance')
+  const ratingParam = url.searchParams.get('rating')
+  const minPriceParam = url.searchParams.get('minPrice')
+  const maxPriceParam = url.searchParams.get('maxPrice')
+  // Restaurants without a price level are included unless this is '0'
+  const unknownPriceParam = url.searchParams.get('unknownPrice')
+  const teamRatingParam = url.searchParams.get('teamRating')
+  const sortParam = url.searchParams.get('sort')
+  const pageParam = url.searchParams.get('page')
+  const savedParam = url.searchParams.get('saved')
+  // Several cuisines and dietary options can be picked at once
+  const cuisineParams = url.searchParams.getAll('cuisine').filter(isCuisine)
+  const dietaryParams = url.searchParams.getAll('dietary').filter(isDietaryOption)
+  const openAtParam = url.searchParams.get('openAt')
+  const nightParam = url.searchParams.get('night')
+  const viewParam = url.searchParams.get('view')
+  // The restaurant picked on the map
+  const selectedParam = url.searchParams.get('selected')
+  
+  // Only nights that are part of the event can be planned
+  const nights = getEventNights(event)
+  const night = nightParam && nights.includes(nightParam)
+    ? nightParam
+    : getDefaultNight(event)
+  
+  // Convert distance to meters (default to 1 mile)
+  const distanceInMiles = distanceParam ? parseInt(distanceParam, 10) : 1
+  const radiusInMeters = distanceInMiles * MILES_TO_METERS
+  
+  // Get all restaurant details
+  const allRestaurants = await getAllRestaurantDetails(
+    event,
+    night,
+    radiusInMeters,
+    userId,
+  )
+  
+  // Split into two lists: with attendees and nearby
+  const restaurantsWithAttendance = allRestaurants
+    .filter(restaurant => restaurant.attendeeCount > 0)
+    .sort((a, b) => b.attendeeCount - a.attendeeCount)
+  
+  // Apply filters to nearby restaurants
+  let restaurantsNearby = allRestaurants.filter(
+    restaurant => restaurant.attendeeCount === 0
+  )
+  
+  // Apply distance filter
+  if (distanceParam) {
+    const maxDistance = parseInt(distanceParam, 10)
+    restaurantsNearby = restaurantsNearby.filter(
+      restaurant => restaurant.distance <= maxDistance
+    )
+  }
+  
+  // Apply rating filter
+  if (ratingParam) {
+    const minRating = parseInt(ratingParam, 10)
+    restaurantsNearby = restaurantsNearby.filter(
+      restaurant => (restaurant.rating ?? 0) >= minRating
+    )
+  }
+  
+  // Apply price range filter, either end of which can be left open. Free
+  // places (price level 0) are only left out once there's a lower end.
+  const minPrice = parsePriceLevel(minPriceParam) ?? 0
+  const maxPrice = parsePriceLevel(maxPriceParam) ?? Math.max(...PRICE_LEVELS)
+  restaurantsNearby = restaurantsNearby.filter(restaurant =>
+    restaurant.priceLevel != null
+      ? restaurant.priceLevel >= Math.min(minPrice, maxPrice) &&
+        restaurant.priceLevel <= Math.max(minPrice, maxPrice)
+      : unknownPriceParam !== '0'
+  )
+  
+  // Apply team rating filter
+  const minTeamRating = TeamRatingSchema.parse(teamRatingParam)
+  if (minTeamRating) {
+    restaurantsNearby = restaurantsNearby.filter(
+      restaurant => (restaurant.teamRating ?? 0) >= minTeamRating
+    )
+  }
+  
+  // Apply cuisine filter (any of the picked cuisines)
+  if (cuisineParams.length) {
+    restaurantsNearby = restaurantsNearby.filter(
+      restaurant => restaurant.cuisines.some(cuisine => cuisineParams.includes(cuisine))
+    )
+  }
+  
+  // Apply dietary filter (every picked option)
+  if (dietaryParams.length) {
+    restaurantsNearby = restaurantsNearby.filter(
+      restaurant => dietaryParams.every(option => restaurant.dietaryOptions.includes(option))
+    )
+  }
+  
+  // Apply opening hours filter, in the venue's time zone on the night being
+  // planned. Hours are stored once a restaurant's details have been looked
+  // up, so look up the closest few we don't know yet and keep the rest (and
+  // any the provider has no hours for) in the list.
+  if (openAtParam && /^([01]\d|2[0-3]):[0-5]\d$/.test(openAtParam)) {
+    const day = getDayOfWeek(night)
+    const lookedUp = await withRestaurantDetails(
+      restaurantsNearby
+        .filter(restaurant => !restaurant.openingHours)
+        .sort((a, b) => a.distance - b.distance)
+        .slice(0, OPENING_HOURS_LOOKUP_LIMIT)
+    )
+    restaurantsNearby = restaurantsNearby.map(
+      restaurant => lookedUp.find(({ id }) => id === restaurant.id) ?? restaurant
+    ).filter(
+      restaurant => !restaurant.openingHours || isOpenAt(restaurant.openingHours, day, openAtParam)
+    )
+  }
+  
+  // Only show the user's saved restaurants
+  if (savedParam === '1') {
+    restaurantsNearby = restaurantsNearby.filter(
+      restaurant => restaurant.isFavorite
+    )
+  }
+  
+  // Sort by rating (desc) unless another order was picked
+  const sort = isSortOption(sortParam) ? sortParam : 'rating'
+  restaurantsNearby.sort((a, b) => compareRestaurants(a, b, sort))
+  
+  // Show a page of results at a time, with each "Show more" adding a page.
+  // The map plots every restaurant around the venue instead.
+  const view = viewParam === 'map' ? 'map' as const : 'list' as const
+  const page = Math.max(1, parseInt(pageParam ?? '1', 10) || 1)
+  const nearbyCount = restaurantsNearby.length
+  if (view === 'list') {
+    restaurantsNearby = restaurantsNearby.slice(0, page * PAGE_SIZE)
+  }
+  
+  // Only look up photos and map links for the restaurants we're going to show:
+  // a page of the list, or the one picked on the map. The map's markers only
+  // need the locations we already have.
+  const withDetailsIfShown = async (restaurants: RestaurantWithDetails[]) => {
+    if (view === 'list') return withRestaurantDetails(restaurants)
+    const selected = restaurants.filter(restaurant => restaurant.id === selectedParam)
+    const [selectedWithDetails] = await withRestaurantDetails(selected)
+    return restaurants.map(restaurant =>
+      restaurant.id === selectedWithDetails?.id ? selectedWithDetails : restaurant
+    )
+  }
+  const [attendedWithDetails, nearbyWithDetails] = await Promise.all([
+    withDetailsIfShown(restaurantsWithAttendance),
+    withDetailsIfShown(restaurantsNearby),
+  ])
+  
+  return {
+    event,
+    nights,
+    night,
+    view,
+    restaurantsWithAttendance: attendedWithDetails,
+    restaurantsNearby: nearbyWithDetails,
+    nearbyCount,
+    page,
+    filters: {
+      distance: distanceParam,
+      rating: ratingParam,
+      minPrice: minPriceParam,
+      maxPrice: maxPriceParam,
+      unknownPrice: unknownPriceParam,
+      teamRating: teamRatingParam,
+      sort: sortParam,
+      saved: savedParam,
+      cuisine: cuisineParams,
+      dietary: dietaryParams,
+      openAt: openAtParam,
+    },
+  }
+}
+
+export async function action({ request, params }: ActionFunctionArgs) {
+  const userId = await requireUserId(request)
+  const event = await requireEvent(params.slug)
+  const formData = await request.formData()
+  
+  // Validate form data
+  const result = ActionSchema.safeParse(Object.fromEntries(formData))
+  
+  if (!result.success) {
+    return { status: 'error', errors: result.error.flatten() }
+  }
+  
+  const { intent, night, restaurantId, dinnerGroupId, attendeeId, reservationTime, capacity, notes } = result.data
+  invariantResponse(getEventNights(event).includes(night), 'Night must be part of the event', { status: 400 })
+  
+  if (intent === 'join') {
+    invariant(restaurantId, 'Restaurant ID is required for joining')
+    const joinResult = await joinDinnerGroup(userId, { eventId: event.id, date: night, restaurantId })
+    if (joinResult.status === 'error') {
+      return data(joinResult, { status: 409 })
+    }
+    if (joinResult.warning) {
+      return { warning: joinResult.warning }
+    }
+  } else if (intent === 'leave') {
+    await leaveDinnerGroup(userId, { eventId: event.id, date: night })
+  } else if (intent === 'update' || intent === 'transfer-host' || intent === 'remove-attendee') {
+    invariant(dinnerGroupId, 'Dinner group ID is required for managing a group')
+    const dinnerGroup = await requireDinnerGroupPermission(request, userId, {
+      eventId: event.id,
+      dinnerGroupId,
+    })
+    
+    let manageResult
+    if (intent === 'update') {
+      manageResult = await updateDinnerGroup(dinnerGroup.id, {
+        reservationTime: reservationTime || null,
+        capacity: capacity || null,
+        notes: notes?.trim() || null,
+      }, userId)
+    } else {
+      invariant(attendeeId, 'Attendee ID is required')
+      manageResult = intent === 'transfer-host'
+        ? await transferDinnerGroupHost(dinnerGroup.id, attendeeId)
+        : await removeDinnerGroupAttendee(dinnerGroup.id, attendeeId)
+    }
+    if (manageResult.status === 'error') {
+      return data(manageResult, { status: 400 })
+    }
+  } else if (intent === 'join-waitlist') {
+    invariant(restaurantId, 'Restaurant ID is required for joining the waitlist')
+    const waitlistResult = await joinWaitlist(userId, { eventId: event.id, date: night, restaurantId })
+    if (waitlistResult.status === 'error') {
+      return data(waitlistResult, { status: 409 })
+    }
+  } else if (intent === 'leave-waitlist') {
+    invariant(restaurantId, 'Restaurant ID is required for leaving the waitlist')
+    await leaveWaitlist(userId, { eventId: event.id, date: night, restaurantId })
+  } else if (intent === 'favorite') {
+    invariant(restaurantId, 'Restaurant ID is required for saving a restaurant')
+    const favoriteResult = await favoriteRestaurant(userId, restaurantId)
+    if (favoriteResult.status === 'error') {
+      return data(favoriteResult, { status: 404 })
+    }
+  } else if (intent === 'unfavorite') {
+    invariant(restaurantId, 'Restaurant ID is required for unsaving a restaurant')
+    await unfavoriteRestaurant(userId, restaurantId)
+  }
+  
+  // Return empty object to trigger revalidation
+  return {}
+}
+
+export default function RestaurantsPage() {
+  const { event, nights, night, view, restaurantsWithAttendance, restaurantsNearby, nearbyCount, page, filters } = useLoaderData<typeof loader>()
+  useLiveDinnerGroups(event.id, night)
+  
+  return (
+    <div className="container py-8">
+      <h1 className="text-3xl font-bold mb-2">Restaurants</h1>
+      <p className="text-gray-600 mb-8">
+        Near {event.venueName} for {event.name}
+      </p>
+      
+      <div className="flex flex-wrap items-end justify-between gap-4">
+        <NightPicker nights={nights} currentNight={night} />
+        <ViewToggle currentView={view} />
+      </div>
+      
+      {view === 'map' ? (
+        <div className="mt-8">
+          <RestaurantMapSection
+            venue={event}
+            restaurants={[...restaurantsWithAttendance, ...restaurantsNearby]}
+            filters={filters}
+            night={night}
+          />
+        </div>
+      ) : (
+        <div className="space-y-12 mt-8">
+          <DinnerPlansSection restaurants={restaurantsWithAttendance} night={night} />
+          <RestaurantListSection 
+            restaurants={restaurantsNearby} 
+            totalCount={nearbyCount}
+            page={page}
+            filters={filters} 
+            night={night}
+          />
+        </div>
+      )}
+    </div>
+  )
+}
+
+// Reloads the page whenever someone changes a dinner group on the night being
+// shown, so counts and seats stay current without anyone refreshing
+function useLiveDinnerGroups(eventId: string, night: string) {
+  const lastUpdate = useEventSource(
+    `/resources/dinner-group-updates?eventId=${encodeURIComponent(eventId)}`,
+  )
+  const { revalidate } = useRevalidator()
+  
+  useEffect(() => {
+    if (!lastUpdate) return
+    const { date } = JSON.parse(lastUpdate) as { date: string }
+    if (date === night) void revalidate()
+  }, [lastUpdate, night, revalidate])
+}
+
+function NightPicker({ nights, currentNight }: { nights: string[], currentNight: string }) {
+  const [searchParams, setSearchParams] = useSearchParams()
+  
+  const setNight = (night: string) => {
+    const newParams = new URLSearchParams(searchParams)
+    newParams.set('night', night)
+    setSearchParams(newParams, { preventScrollReset: true, replace: true })
+  }
+  
+  return (
+    <div>
+      <h3 className="text-sm font-medium mb-2">Night</h3>
+      <ToggleGroup type="single" variant="outline" className="flex flex-wrap justify-start gap-2">
+        {nights.map(night => (
+          <ToggleGroupItem
+            key={night}
+            value={night}
+            data-state={currentNight === night ? 'on' : 'off'}
+            onClick={() => setNight(night)}
+          >
+            {formatNight(night)}
+          </ToggleGroupItem>
+        ))}
+      </ToggleGroup>
+    </div>
+  )
+}
+
+function ViewToggle({ currentView }: { currentView: 'list' | 'map' }) {
+  const [searchParams, setSearchParams] = useSearchParams()
+  
+  const setView = (view: 'list' | 'map') => {
+    const newParams = new URLSearchParams(searchParams)
+    if (view === 'map') {
+      newParams.set('view', 'map')
+    } else {
+      newParams.delete('view')
+      newParams.delete('selected')
+    }
+    setSearchParams(newParams, { preventScrollReset: true, replace: true })
+  }
+  
+  return (
+    <div>
+      <h3 className="text-sm font-medium mb-2">View</h3>
+      <ToggleGroup type="single" variant="outline" className="flex justify-start gap-2">
+        <ToggleGroupItem
+          value="list"
+          data-state={currentView === 'list' ? 'on' : 'off'}
+          onClick={() => setView('list')}
+        >
+          <List className="w-4 h-4 mr-1" />
+          List
+        </ToggleGroupItem>
+        <ToggleGroupItem
+          value="map"
+          data-state={currentView === 'map' ? 'on' : 'off'}
+          onClick={() => setView('map')}
+        >
+          <Map className="w-4 h-4 mr-1" />
+          Map
+        </ToggleGroupItem>
+      </ToggleGroup>
+    </div>
+  )
+}
+
+function DinnerPlansSection({ restaurants, night }: { restaurants: RestaurantWithDetails[], night: string }) {
+  return (
+    <section>
+      <h2 className="text-2xl font-bold mb-4">Dinner Plans for {formatNight(night)}</h2>
+      
+      {restaurants.length > 0 ? (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+          {restaurants.map(restaurant => (
+            <RestaurantCard key={restaurant.id} restaurant={restaurant} night={night} />
+          ))}
+        </div>
+      ) : (
+        <div className="border-2 border-dashed rounded-lg p-8 flex items-center justify-center h-64">
+          <p className="text-lg text-gray-500">Everyone is having dinner on their own 🥲</p>
+        </div>
+      )}
+    </section>
+  )
+}
+
+type RestaurantFilters = {
+  distance: string | null
+  rating: string | null
+  minPrice: string | null
+  maxPrice: string | null
+  unknownPrice: string | null
+  teamRating: string | null
+  sort: string | null
+  saved: string | null
+  cuisine: string[]
+  dietary: string[]
+  openAt: string | null
+}
+
+function RestaurantListSection({ 
+  restaurants, 
+  totalCount,
+  page,
+  filters,
+  night,
+}: { 
+  restaurants: RestaurantWithDetails[], 
+  totalCount: number,
+  page: number,
+  filters: RestaurantFilters,
+  night: string,
+}) {
+  const [searchParams, setSearchParams] = useSearchParams()
+  
+  const setSort = (sort: string) => {
+    const newParams = new URLSearchParams(searchParams)
+    if (sort === 'rating') {
+      newParams.delete('sort')
+    } else {
+      newParams.set('sort', sort)
+    }
+    newParams.delete('page')
+    setSearchParams(newParams, { preventScrollReset: true, replace: true })
+  }
+  
+  const showMoreParams = new URLSearchParams(searchParams)
+  showMoreParams.set('page', String(page + 1))
+  
+  return (
+    <section>
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+        <h2 className="text-2xl font-bold">Restaurants Nearby</h2>
+        <SelectField
+          className="w-48"
+          labelProps={{ children: 'Sort by' }}
+          selectProps={{
+            id: 'restaurant-sort',
+            value: isSortOption(filters.sort) ? filters.sort : 'rating',
+            onChange: event => setSort(event.currentTarget.value),
+          }}
+          options={SORT_OPTIONS}
+        />
+      </div>
+      
+      <Filters currentFilters={filters} />
+      
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6 mt-6">
+        {restaurants.map(restaurant => (
+          <RestaurantCard key={restaurant.id} restaurant={restaurant} night={night} />
+        ))}
+        
+        {restaurants.length === 0 && (
+          <div className="col-span-full border-2 border-dashed rounded-lg p-8 flex items-center justify-center h-64">
+            <p className="text-lg text-gray-500">No restaurants match your filters</p>
+          </div>
+        )}
+      </div>
+      
+      {restaurants.length < totalCount ? (
+        <div className="flex flex-col items-center gap-2 mt-6">
+          <p className="text-sm text-gray-500">
+            Showing {restaurants.length} of {totalCount} restaurants
+          </p>
+          <Button variant="outline" asChild>
+            <Link to={{ search: showMoreParams.toString() }} preventScrollReset replace>
+              Show more
+            </Link>
+          </Button>
+        </div>
+      ) : null}
+    </section>
+  )
+}
+
+// The distances the filters offer, which the map draws as rings
+const DISTANCE_OPTIONS = [1, 2, 5, 10]
+
+const MAP_HEIGHT = 480
+const MIN_ZOOM = 3
+const MAX_ZOOM = 18
+
+function RestaurantMapSection({
+  venue,
+  restaurants,
+  filters,
+  night,
+}: {
+  venue: { name: string, venueName: string, lat: number, lng: number },
+  restaurants: RestaurantWithDetails[],
+  filters: RestaurantFilters,
+  night: string,
+}) {
+  const [searchParams, setSearchParams] = useSearchParams()
+  // Kept in the URL so the loader looks up the picked restaurant's details
+  const selectedId = searchParams.get('selected')
+  const setSelectedId = (restaurantId: string | null) => {
+    const newParams = new URLSearchParams(searchParams)
+    if (restaurantId) {
+      newParams.set('selected', restaurantId)
+    } else {
+      newParams.delete('selected')
+    }
+    setSearchParams(newParams, { preventScrollReset: true, replace: true })
+  }
+  const selected = restaurants.find(restaurant => restaurant.id === selectedId)
+  const distance = filters.distance ? parseInt(filters.distance, 10) : 1
+  
+  return (
+    <section>
+      <h2 className="text-2xl font-bold mb-4">Map</h2>
+      
+      <Filters currentFilters={filters} />
+      
+      <RestaurantMap
+        // start over zoomed to fit when the distance changes
+        key={distance}
+        venue={venue}
+        restaurants={restaurants}
+        distance={distance}
+        selectedId={selectedId}
+        onSelect={setSelectedId}
+      />
+      
+      {selected ? (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6 mt-6">
+          <RestaurantCard restaurant={selected} night={night} />
+        </div>
+      ) : (
+        <p className="text-sm text-gray-500 mt-4">
+          Pick a restaurant on the map to see its details
+        </p>
+      )}
+    </section>
+  )
+}
+
+// Zooms in as far as possible while still showing the whole distance ring
+function getZoomToFit(lat: number, miles: number, size: { width: number, height: number }) {
+  const radiusInPixels = Math.min(size.width, size.height) * 0.45
+  const zoom = Math.floor(
+    Math.log2((metersPerPixel(lat, 0) * radiusInPixels) / (miles * MILES_TO_METERS))
+  )
+  return Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, zoom))
+}
+
+// The tiles covering the part of the world on screen, positioned relative to
+// its top left corner
+function getVisibleTiles(
+  view: { left: number, top: number, width: number, height: number },
+  zoom: number,
+) {
+  const tileCount = 2 ** zoom
+  const tiles = []
+  for (let x = Math.floor(view.left / TILE_SIZE); x * TILE_SIZE < view.left + view.width; x++) {
+    for (let y = Math.max(0, Math.floor(view.top / TILE_SIZE)); y * TILE_SIZE < view.top + view.height && y < tileCount; y++) {
+      tiles.push({
+        key: `${zoom}/${x}/${y}`,
+        // wrap around the date line
+        src: getTileUrl(ENV.MAP_TILE_URL, { z: zoom, x: ((x % tileCount) + tileCount) % tileCount, y }),
+        left: x * TILE_SIZE - view.left,
+        top: y * TILE_SIZE - view.top,
+      })
+    }
+  }
+  return tiles
+}
+
+function RestaurantMap({
+  venue,
+  restaurants,
+  distance,
+  selectedId,
+  onSelect,
+}: {
+  venue: { venueName: string, lat: number, lng: number },
+  restaurants: RestaurantWithDetails[],
+  distance: number,
+  selectedId: string | null,
+  onSelect: (restaurantId: string | null) => void,
+}) {
+  const containerRef = useRef<HTMLDivElement>(null)
+  // The width isn't known until it's on the page
+  const [size, setSize] = useState({ width: 800, height: MAP_HEIGHT })
+  const [zoom, setZoom] = useState(() => getZoomToFit(venue.lat, distance, size))
+  // How far the map has been dragged from the venue, in pixels at this zoom
+  const [offset, setOffset] = useState({ x: 0, y: 0 })
+  const dragRef = useRef<{ x: number, y: number } | null>(null)
+  
+  useEffect(() => {
+    const container = containerRef.current
+    if (!container) return
+    const observer = new ResizeObserver(([entry]) => {
+      if (entry) setSize({ width: entry.contentRect.width, height: MAP_HEIGHT })
+    })
+    observer.observe(container)
+    return () => observer.disconnect()
+  }, [])
+  
+  const changeZoom = (change: number) => {
+    const newZoom = Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, zoom + change))
+    const scale = 2 ** (newZoom - zoom)
+    setOffset({ x: offset.x * scale, y: offset.y * scale })
+    setZoom(newZoom)
+  }
+  
+  const venuePixels = projectToPixels(venue.lat, venue.lng, zoom)
+  const left = venuePixels.x + offset.x - size.width / 2
+  const top = venuePixels.y + offset.y - size.height / 2
+  const toScreen = (lat: number, lng: number) => {
+    const pixels = projectToPixels(lat, lng, zoom)
+    return { x: pixels.x - left, y: pixels.y - top }
+  }
+  
+  const tiles = getVisibleTiles({ left, top, ...size }, zoom)
+  
+  const venuePoint = toScreen(venue.lat, venue.lng)
+  const pixelsPerMile = MILES_TO_METERS / metersPerPixel(venue.lat, zoom)
+  // Restaurants with dinner groups go on top
+  const markers = [...restaurants].sort((a, b) => a.attendeeCount - b.attendeeCount)
+  
+  return (
+    <div
+      ref={containerRef}
+      role="region"
+      aria-label={`Map of restaurants near ${venue.venueName}`}
+      className="relative w-full overflow-hidden rounded-lg border bg-gray-100 mt-6 touch-none select-none cursor-grab"
+      style={{ height: size.height }}
+      onPointerDown={(event) => {
+        dragRef.current = { x: event.clientX, y: event.clientY }
+      }}
+      onPointerMove={(event) => {
+        const drag = dragRef.current
+        if (!drag) return
+        // only start dragging once the pointer really moves, so markers can
+        // still be clicked
+        if (event.buttons === 0) {
+          dragRef.current = null
+          return
+        }
+        const dx = event.clientX - drag.x
+        const dy = event.clientY - drag.y
+        if (!event.currentTarget.hasPointerCapture(event.pointerId)) {
+          if (Math.abs(dx) + Math.abs(dy) < 4) return
+          event.currentTarget.setPointerCapture(event.pointerId)
+        }
+        setOffset(current => ({ x: current.x - dx, y: current.y - dy }))
+        dragRef.current = { x: event.clientX, y: event.clientY }
+      }}
+      onPointerUp={() => {
+        dragRef.current = null
+      }}
+    >
+      {tiles.map(tile => (
+        <img
+          key={tile.key}
+          src={tile.src}
+          alt=""
+          draggable={false}
+          className="absolute max-w-none"
+          style={{ left: tile.left, top: tile.top, width: TILE_SIZE, height: TILE_SIZE }}
+        />
+      ))}
+      
+      <svg className="absolute inset-0 pointer-events-none" width={size.width} height={size.height}>
+        {DISTANCE_OPTIONS.map(miles => (
+          <g key={miles}>
+            <circle
+              cx={venuePoint.x}
+              cy={venuePoint.y}
+              r={miles * pixelsPerMile}
+              fill="none"
+              stroke="#2563eb"
+              strokeOpacity={miles === distance ? 0.9 : 0.4}
+              strokeWidth={miles === distance ? 2 : 1}
+              strokeDasharray={miles === distance ? undefined : '4 4'}
+            />
+            <text
+              x={venuePoint.x}
+              y={venuePoint.y - miles * pixelsPerMile - 4}
+              textAnchor="middle"
+              className="fill-blue-700 text-xs font-medium"
+            >
+              {miles} mi
+            </text>
+          </g>
+        ))}
+      </svg>
+      
+      <div
+        className="absolute -translate-x-1/2 -translate-y-1/2 bg-blue-600 text-white rounded-full p-1.5 shadow"
+        style={{ left: venuePoint.x, top: venuePoint.y }}
+        title={venue.venueName}
+      >
+        <Hotel className="w-4 h-4" aria-label={venue.venueName} />
+      </div>
+      
+      {markers.map(restaurant => {
+        const point = toScreen(restaurant.lat, restaurant.lng)
+        const hasAttendees = restaurant.attendeeCount > 0
+        return (
+          <button
+            key={restaurant.id}
+            type="button"
+            aria-label={hasAttendees
+              ? `${restaurant.name}, ${restaurant.attendeeCount} attending`
+              : restaurant.name}
+            aria-pressed={restaurant.id === selectedId}
+            title={restaurant.name}
+            onClick={() => onSelect(restaurant.id === selectedId ? null : restaurant.id)}
+            className={cn(
+              'absolute -translate-x-1/2 -translate-y-1/2 rounded-full border-2 shadow flex items-center justify-center',
+              hasAttendees
+                ? 'bg-orange-500 border-white text-white text-xs font-bold min-w-7 h-7 px-1'
+                : 'bg-white border-gray-700 w-3.5 h-3.5',
+              restaurant.id === selectedId && 'ring-2 ring-offset-1 ring-blue-600',
+            )}
+            style={{ left: point.x, top: point.y }}
+          >
+            {hasAttendees ? restaurant.attendeeCount : null}
+          </button>
+        )
+      })}
+      
+      <div className="absolute top-2 right-2 flex flex-col gap-1">
+        <Button type="button" variant="outline" size="icon" aria-label="Zoom in" onClick={() => changeZoom(1)} disabled={zoom >= MAX_ZOOM}>
+          <Plus className="w-4 h-4" />
+        </Button>
+        <Button type="button" variant="outline" size="icon" aria-label="Zoom out" onClick={() => changeZoom(-1)} disabled={zoom <= MIN_ZOOM}>
+          <Minus className="w-4 h-4" />
+        </Button>
+      </div>
+      
+      <div className="absolute bottom-0 right-0 bg-white/80 px-1 text-xs text-gray-700">
+        {ENV.MAP_TILE_ATTRIBUTION_URL ? (
+          <a href={ENV.MAP_TILE_ATTRIBUTION_URL} target="_blank" rel="noopener noreferrer" className="underline">
+            {ENV.MAP_TILE_ATTRIBUTION}
+          </a>
+        ) : ENV.MAP_TILE_ATTRIBUTION}
+      </div>
+    </div>
+  )
+}
+
+function Filters({ 
+  currentFilters 
+}: { 
+  currentFilters: RestaurantFilters 
+}) {
+  const [searchParams, setSearchParams] = useSearchParams()
+  
+  const setFilter = (key: string, value: string | null) => {
+    const newParams = new URLSearchParams(searchParams)
+    
+    if (value === null || currentFilters[key as keyof typeof currentFilters] === value) {
+      newParams.delete(key)
+    } else {
+      newParams.set(key, value)
+    }
+    // Start over from the first page of results
+    newParams.delete('page')
+    
+    setSearchParams(newParams, { preventScrollReset: true, replace: true })
+  }
+  
+  // Sets one end of the price range, moving the other end along when they'd
+  // cross so the range stays valid
+  const setPriceRange = (key: 'minPrice' | 'maxPrice', price: number) => {
+    const newParams = new URLSearchParams(searchParams)
+    const value = price.toString()
+    
+    if (currentFilters[key] === value) {
+      newParams.delete(key)
+    } else {
+      newParams.set(key, value)
+      const otherKey = key === 'minPrice' ? 'maxPrice' : 'minPrice'
+      const other = currentFilters[otherKey] ? parseInt(currentFilters[otherKey], 10) : null
+      if (other !== null && (key === 'minPrice' ? other < price : other > price)) {
+        newParams.set(otherKey, value)
+      }
+    }
+    newParams.delete('page')
+    
+    setSearchParams(newParams, { preventScrollReset: true, replace: true })
+  }
+  
+  // Adds or removes one of the values of a filter that takes several
+  const toggleListFilter = (key: 'cuisine' | 'dietary', value: string) => {
+    const newParams = new URLSearchParams(searchParams)
+    const values = currentFilters[key].includes(value)
+      ? currentFilters[key].filter(current => current !== value)
+      : [...currentFilters[key], value]
+    
+    newParams.delete(key)
+    for (const current of values) {
+      newParams.append(key, current)
+    }
+    newParams.delete('page')
+    
+    setSearchParams(newParams, { preventScrollReset: true, replace: true })
+  }
+  
+  return (
+    <div className="space-y-4">
+      <div>
+        <h3 className="text-sm font-medium mb-2">Saved</h3>
+        <ToggleGroup type="single" variant="outline" className="flex justify-start gap-2">
+          <ToggleGroupItem
+            value="1"
+            data-state={currentFilters.saved === '1' ? 'on' : 'off'}
+            onClick={() => setFilter('saved', '1')}
+          >
+            <Heart className="w-4 h-4 mr-1" />
+            Saved only
+          </ToggleGroupItem>
+        </ToggleGroup>
+      </div>
+      
+      <div>
+        <h3 className="text-sm font-medium mb-2">Distance</h3>
+        <ToggleGroup type="single" variant="outline" className="grid grid-cols-4 gap-2">
+          {DISTANCE_OPTIONS.map(distance => (
+            <ToggleGroupItem 
+              key={distance}
+              value={distance.toString()}
+              data-state={currentFilters.distance === distance.toString() ? 'on' : 'off'}
+              onClick={() => setFilter('distance', distance.toString())}
+              className="w-full"
+            >
+              {distance} mi
+            </ToggleGroupItem>
+          ))}
+        </ToggleGroup>
+      </div>
+      
+      <div>
+        <h3 className="text-sm font-medium mb-2">Rating</h3>
+        <ToggleGroup type="single" variant="outline" className="grid grid-cols-4 gap-2">
+          {[1, 2, 3, 4].map(rating => (
+            <ToggleGroupItem 
+              key={rating}
+              value={rating.toString()}
+              data-state={currentFilters.rating === rating.toString() ? 'on' : 'off'}
+              onClick={() => setFilter('rating', rating.toString())}
+              className="w-full"
+            >
+              {'⭐'.repeat(rating)}
+            </ToggleGroupItem>
+          ))}
+        </ToggleGroup>
+      </div>
+      
+      <div>
+        <h3 className="text-sm font-medium mb-2">Team rating</h3>
+        <ToggleGroup type="single" variant="outline" className="grid grid-cols-4 gap-2">
+          {[1, 2, 3, 4].map(teamRating => (
+            <ToggleGroupItem 
+              key={teamRating}
+              value={teamRating.toString()}
+              data-state={currentFilters.teamRating === teamRating.toString() ? 'on' : 'off'}
+              onClick={() => setFilter('teamRating', teamRating.toString())}
+              className="w-full"
+            >
+              {teamRating}+
+            </ToggleGroupItem>
+          ))}
+        </ToggleGroup>
+      </div>
+      
+      <div>
+        <h3 className="text-sm font-medium mb-2">Price</h3>
+        <div className="space-y-2">
+          {([['minPrice', 'From'], ['maxPrice', 'To']] as const).map(([key, label]) => (
+            <div key={key} className="flex items-center gap-2">
+              <span className="w-10 text-sm text-gray-600">{label}</span>
+              <ToggleGroup type="single" variant="outline" className="grid flex-1 grid-cols-4 gap-2">
+                {PRICE_LEVELS.map(price => (
+                  <ToggleGroupItem 
+                    key={price}
+                    value={price.toString()}
+                    aria-label={`${label} ${'$'.repeat(price)}`}
+                    data-state={currentFilters[key] === price.toString() ? 'on' : 'off'}
+                    onClick={() => setPriceRange(key, price)}
+                    className="w-full"
+                  >
+                    {'$'.repeat(price)}
+                  </ToggleGroupItem>
+                ))}
+              </ToggleGroup>
+            </div>
+          ))}
+          <ToggleGroup type="single" variant="outline" className="flex justify-start gap-2">
+            <ToggleGroupItem
+              value="unknown"
+              data-state={currentFilters.unknownPrice === '0' ? 'off' : 'on'}
+              onClick={() => setFilter('unknownPrice', '0')}
+            >
+              Include unknown price
+            </ToggleGroupItem>
+          </ToggleGroup>
+        </div>
+      </div>
+      
+      <div>
+        <h3 className="text-sm font-medium mb-2">Open that night at</h3>
+        <ToggleGroup type="single" variant="outline" className="grid grid-cols-3 gap-2">
+          {['18:00', '19:00', '20:00'].map(time => (
+            <ToggleGroupItem
+              key={time}
+              value={time}
+              data-state={currentFilters.openAt === time ? 'on' : 'off'}
+              onClick={() => setFilter('openAt', time)}
+              className="w-full"
+            >
+              {formatTime(time)}
+            </ToggleGroupItem>
+          ))}
+        </ToggleGroup>
+      </div>
+      
+      <div>
+        <h3 className="text-sm font-medium mb-2">Cuisine</h3>
+        <ToggleGroup type="multiple" variant="outline" className="flex flex-wrap justify-start gap-2">
+          {CUISINES.map(({ value, label }) => (
+            <ToggleGroupItem
+              key={value}
+              value={value}
+              data-state={currentFilters.cuisine.includes(value) ? 'on' : 'off'}
+              onClick={() => toggleListFilter('cuisine', value)}
+            >
+              {label}
+            </ToggleGroupItem>
+          ))}
+        </ToggleGroup>
+      </div>
+      
+      <div>
+        <h3 className="text-sm font-medium mb-2">Dietary</h3>
+        <ToggleGroup type="multiple" variant="outline" className="flex flex-wrap justify-start gap-2">
+          {DIETARY_OPTIONS.map(({ value, label }) => (
+            <ToggleGroupItem
+              key={value}
+              value={value}
+              data-state={currentFilters.dietary.includes(value) ? 'on' : 'off'}
+              onClick={() => toggleListFilter('dietary', value)}
+            >
+              {label}
+            </ToggleGroupItem>
+          ))}
+        </ToggleGroup>
+      </div>
+      
+    </div>
+  )
+}
+
+function RestaurantCard({ restaurant, night }: { restaurant: RestaurantWithDetails, night: string }) {
+  const fetcher = useFetcher<typeof action>()
+  const isJoining = fetcher.state === 'submitting' && fetcher.formData?.get('intent') === 'join'
+  const isLeaving = fetcher.state === 'submitting' && fetcher.formData?.get('intent') === 'leave'
+  const isUpdatingWaitlist = fetcher.state === 'submitting' && String(fetcher.formData?.get('intent')).endsWith('-waitlist')
+  const isFull = restaurant.capacity !== null && restaurant.attendeeCount >= restaurant.capacity
+  const canManage = restaurant.canManage
+  const error = fetcher.data && 'error' in fetcher.data && typeof fetcher.data.error === 'string'
+    ? fetcher.data.error
+    : null
+  const warning = fetcher.data && 'warning' in fetcher.data ? fetcher.data.warning : null
+  const day = getDayOfWeek(night)
+  
+  return (
+    <Card className="overflow-hidden flex flex-col">
+      <div className="relative h-48">
+        {restaurant.photoRef ? (
+          <img 
+            src={`/resources/maps/photo?photoRef=${restaurant.photoRef}`}
+            alt={restaurant.name}
+            className="w-full h-full object-cover"
+          />
+        ) : (
+          <div className="w-full h-full bg-gray-200 flex items-center justify-center">
+            <span className="text-gray-400">No image available</span>
+          </div>
+        )}
+        
+        <FavoriteButton restaurant={restaurant} night={night} />
+        
+        <div className="absolute top-2 right-2 flex flex-col gap-1">
+          {restaurant.rating ? (
+            <span className="bg-white px-2 py-1 rounded-md text-sm font-medium flex items-center">
+              {restaurant.rating} <Star className="w-4 h-4 ml-1 text-yellow-400" />
+            </span>
+          ) : null}
+          
+          {restaurant.priceLevel ? (
+            <span className="bg-white px-2 py-1 rounded-md text-sm font-medium">
+              {'$'.repeat(restaurant.priceLevel)}
+            </span>
+          ) : null}
+        </div>
+      </div>
+      
+      <CardContent className="p-4 flex-1 flex flex-col">
+        <h3 className="font-bold text-lg mb-1">{restaurant.name}</h3>
+        
+        <div className="flex items-center text-sm text-gray-600 mb-2">
+          <MapPin className="w-4 h-4 mr-1" />
+          <span>{restaurant.distance} mi</span>
+        </div>
+        
+        {restaurant.cuisines.length || restaurant.dietaryOptions.length ? (
+          <ul className="flex flex-wrap gap-1 mb-2" aria-label="Tags">
+            {restaurant.cuisines.map(cuisine => (
+              <li key={cuisine} className="bg-gray-100 text-gray-700 px-2 py-0.5 rounded-full text-xs">
+                {getCuisineLabel(cuisine)}
+              </li>
+            ))}
+            {restaurant.dietaryOptions.map(option => (
+              <li key={option} className="bg-green-100 text-green-800 px-2 py-0.5 rounded-full text-xs">
+                {getDietaryOptionLabel(option)} options
+              </li>
+            ))}
+          </ul>
+        ) : null}
+        
+        {restaurant.teamRating !== null ? (
+          <div className="flex items-center text-sm text-gray-600 mb-2">
+            <Star className="w-4 h-4 mr-1" />
+            <span>Team rating {restaurant.teamRating} ({restaurant.teamRatingCount})</span>
+          </div>
+        ) : null}
+        
+        {restaurant.openingHours ? (
+          <div className="flex items-center text-sm text-gray-600 mb-2">
+            <Clock className="w-4 h-4 mr-1" />
+            <span>
+              {WEEKDAYS[day]}: {formatOpeningHoursForDay(restaurant.openingHours, day)}
+            </span>
+          </div>
+        ) : null}
+        
+        {restaurant.mapsUrl && (
+          <a 
+            href={restaurant.mapsUrl}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="text-sm text-blue-600 hover:underline flex items-center mb-2"
+          >
+            <Map className="w-4 h-4 mr-1" />
+            Directions
+          </a>
+        )}
+      </CardContent>
+      
+      <CardFooter className="p-4 pt-0 flex flex-col">
+        <div className="text-sm mb-2 w-full flex items-center justify-between">
+          {restaurant.capacity !== null ? (
+            <span className="flex items-center">
+              <Users className="w-4 h-4 mr-1" />
+              {restaurant.attendeeCount}/{restaurant.capacity} seats
+            </span>
+          ) : restaurant.attendeeCount > 0 ? (
+            <span>{restaurant.attendeeCount} attending</span>
+          ) : (
+            <span>&nbsp;</span>
+          )}
+          
+          {restaurant.waitlistCount > 0 ? (
+            <span>{restaurant.waitlistCount} waiting</span>
+          ) : null}
+          
+          {restaurant.reservationTime ? (
+            <span className="flex items-center">
+              <Clock className="w-4 h-4 mr-1" />
+              {formatTime(restaurant.reservationTime)}
+            </span>
+          ) : null}
+        </div>
+        
+        {restaurant.dinnerGroupId ? (
+          <Link
+            to={`/dinners/${restaurant.dinnerGroupId}`}
+            prefetch="intent"
+            className="text-sm text-blue-600 hover:underline mb-2 self-start"
+          >
+            See who's going
+          </Link>
+        ) : null}
+        
+        {restaurant.notes ? (
+          <p className="text-sm mb-2 w-full whitespace-pre-wrap">{restaurant.notes}</p>
+        ) : null}
+        
+        {canManage ? (
+          <DinnerGroupSettings restaurant={restaurant} night={night} />
+        ) : null}
+        
+        <fetcher.Form method="post" className="w-full">
+          <input type="hidden" name="restaurantId" value={restaurant.id} />
+          <input type="hidden" name="night" value={night} />
+          
+          {restaurant.isUserAttending ? (
+            <StatusButton
+              type="submit"
+              name="intent"
+              value="leave"
+              status={isLeaving ? 'pending' : 'idle'}
+              className="w-full"
+              variant="destructive"
+            >
+              {isLeaving ? 'Leaving...' : 'Leave'}
+            </StatusButton>
+          ) : restaurant.userWaitlistPosition !== null ? (
+            <StatusButton
+              type="submit"
+              name="intent"
+              value="leave-waitlist"
+              status={isUpdatingWaitlist ? 'pending' : 'idle'}
+              className="w-full"
+              variant="outline"
+            >
+              Leave waitlist
+            </StatusButton>
+          ) : isFull ? (
+            <StatusButton
+              type="submit"
+              name="intent"
+              value="join-waitlist"
+              status={isUpdatingWaitlist ? 'pending' : 'idle'}
+              className="w-full"
+              variant="secondary"
+            >
+              Join waitlist
+            </StatusButton>
+          ) : (
+            <StatusButton
+              type="submit"
+              name="intent"
+              value="join"
+              status={isJoining ? 'pending' : 'idle'}
+              className="w-full"
+            >
+              {isJoining ? 'Joining...' : 'Join'}
+            </StatusButton>
+          )}
+        </fetcher.Form>
+        
+        {restaurant.userWaitlistPosition !== null ? (
+          <p className="text-sm text-muted-foreground mt-2">
+            You're #{restaurant.userWaitlistPosition} on the waitlist
+          </p>
+        ) : null}
+        
+        {error ? (
+          <p className="text-sm text-foreground-destructive mt-2">{error}</p>
+        ) : null}
+        
+        {warning ? (
+          <p className="text-sm text-amber-700 mt-2">{warning}</p>
+        ) : null}
+      </CardFooter>
+    </Card>
+  )
+}
+
+function FavoriteButton({ restaurant, night }: { restaurant: RestaurantWithDetails, night: string }) {
+  const fetcher = useFetcher<typeof action>()
+  // Show the new state right away rather than waiting for the reload
+  const isFavorite = fetcher.formData
+    ? fetcher.formData.get('intent') === 'favorite'
+    : restaurant.isFavorite
+  
+  return (
+    <fetcher.Form method="post" className="absolute top-2 left-2">
+      <input type="hidden" name="restaurantId" value={restaurant.id} />
+      <input type="hidden" name="night" value={night} />
+      <button
+        type="submit"
+        name="intent"
+        value={isFavorite ? 'unfavorite' : 'favorite'}
+        aria-label={isFavorite ? `Unsave ${restaurant.name}` : `Save ${restaurant.name}`}
+        aria-pressed={isFavorite}
+        className="bg-white p-1.5 rounded-full"
+      >
+        <Heart className={cn('w-5 h-5', isFavorite ? 'fill-red-500 text-red-500' : 'text-gray-600')} />
+      </button>
+    </fetcher.Form>
+  )
+}
+
+function DinnerGroupSettings({ restaurant, night }: { restaurant: RestaurantWithDetails, night: string }) {
+  const fetcher = useFetcher<typeof action>()
+  const isSaving = fetcher.state !== 'idle'
+  const fieldErrors = fetcher.data && 'errors' in fetcher.data
+    ? fetcher.data.errors?.fieldErrors
+    : null
+  const error = fetcher.data && 'error' in fetcher.data && typeof fetcher.data.error === 'string'
+    ? fetcher.data.error
+    : null
+  
+  return (
+    <details className="w-full mb-2">
+      <summary className="text-sm font-medium cursor-pointer mb-2">Manage group</summary>
+      
+      <fetcher.Form method="post" className="space-y-2">
+        <input type="hidden" name="dinnerGroupId" value={restaurant.dinnerGroupId ?? ''} />
+        <input type="hidden" name="night" value={night} />
+        
+        <div className="flex gap-2">
+          <div className="flex-1">
+            <Label htmlFor={`reservation-time-${restaurant.id}`}>Time</Label>
+            <Input
+              id={`reservation-time-${restaurant.id}`}
+              type="time"
+              name="reservationTime"
+              defaultValue={restaurant.reservationTime ?? ''}
+            />
+          </div>
+          <div className="flex-1">
+            <Label htmlFor={`capacity-${restaurant.id}`}>Seats</Label>
+            <Input
+              id={`capacity-${restaurant.id}`}
+              type="number"
+              name="capacity"
+              min={Math.max(2, restaurant.attendeeCount)}
+              max={50}
+              placeholder="No limit"
+              defaultValue={restaurant.capacity ?? ''}
+            />
+          </div>
+        </div>
+        
+        <div>
+          <Label htmlFor={`notes-${restaurant.id}`}>Notes</Label>
+          <Textarea
+            id={`notes-${restaurant.id}`}
+            name="notes"
+            maxLength={500}
+            placeholder="Meet in the lobby at 6:30"
+            defaultValue={restaurant.notes ?? ''}
+          />
+        </div>
+        
+        <StatusButton
+          type="submit"
+          name="intent"
+          value="update"
+          status={isSaving && fetcher.formData?.get('intent') === 'update' ? 'pending' : 'idle'}
+          variant="outline"
+          size="sm"
+          className="w-full"
+        >
+          Save
+        </StatusButton>
+      </fetcher.Form>
+      
+      <ul className="mt-3 space-y-1">
+        {restaurant.attendees.map((attendee, index) => (
+          <li key={attendee.id ?? `hidden-${index}`} className="flex items-center justify-between gap-2 text-sm">
+            <span className="truncate">
+              {attendee.isHidden ? 'Private attendee' : attendee.name ?? attendee.username}
+              {attendee.isOrganizer ? ' (host)' : null}
+            </span>
+            {attendee.id && !attendee.isOrganizer ? (
+              <fetcher.Form method="post" className="flex gap-1">
+                <input type="hidden" name="dinnerGroupId" value={restaurant.dinnerGroupId ?? ''} />
+                <input type="hidden" name="night" value={night} />
+                <input type="hidden" name="attendeeId" value={attendee.id} />
+                <Button type="submit" name="intent" value="transfer-host" variant="ghost" size="sm" disabled={isSaving}>
+                  Make host
+                </Button>
+                <Button type="submit" name="intent" value="remove-attendee" variant="ghost" size="sm" disabled={isSaving}>
+                  Remove
+                </Button>
+              </fetcher.Form>
+            ) : null}
+          </li>
+        ))}
+      </ul>
+      
+      {error || fieldErrors?.reservationTime || fieldErrors?.capacity || fieldErrors?.notes ? (
+        <p className="text-sm text-foreground-destructive mt-2">
+          {error ?? fieldErrors?.reservationTime?.[0] ?? fieldErrors?.capacity?.[0] ?? fieldErrors?.notes?.[0]}
+        </p>
+      ) : null}
+    </details>
+  )
+}
+
+export function ErrorBoundary() {
+  return (
+    <GeneralErrorBoundary
+      statusHandlers={{
+        404: ({ params }) => (
+          <p>No event with the slug "{params.slug}" exists</p>
+        ),
+      }}
+    />
+  )
+}
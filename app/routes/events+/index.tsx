@@ -0,0 +1,49 @@
+import { Link } from 'react-router'
+import { GeneralErrorBoundary } from '#app/components/error-boundary.tsx'
+import { requireUserId } from '#app/utils/auth.server.ts'
+import { getUpcomingEvents } from '#app/utils/events.server.ts'
+import { formatEventDates } from '#app/utils/events.ts'
+import { type Route } from './+types/index.ts'
+
+export async function loader({ request }: Route.LoaderArgs) {
+	await requireUserId(request)
+	const events = await getUpcomingEvents()
+	return { events }
+}
+
+export default function EventsRoute({ loaderData }: Route.ComponentProps) {
+	return (
+		<div className="container py-8">
+			<h1 className="mb-8 text-3xl font-bold">Events</h1>
+			{loaderData.events.length ? (
+				<ul className="grid grid-cols-1 gap-6 md:grid-cols-2 lg:grid-cols-3">
+					{loaderData.events.map((event) => (
+						<li key={event.id}>
+							<Link
+								to={`/events/${event.slug}/restaurants`}
+								prefetch="intent"
+								className="flex flex-col gap-1 rounded-lg bg-muted p-6 hover:bg-muted/80"
+							>
+								<span className="text-lg font-bold">{event.name}</span>
+								<span className="text-sm text-muted-foreground">
+									{event.venueName}
+								</span>
+								<span className="text-sm text-muted-foreground">
+									{formatEventDates(event)}
+								</span>
+							</Link>
+						</li>
+					))}
+				</ul>
+			) : (
+				<div className="flex h-64 items-center justify-center rounded-lg border-2 border-dashed p-8">
+					<p className="text-lg text-gray-500">No upcoming events</p>
+				</div>
+			)}
+		</div>
+	)
+}
+
+export function ErrorBoundary() {
+	return <GeneralErrorBoundary />
+}
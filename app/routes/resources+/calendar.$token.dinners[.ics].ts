@@ -0,0 +1,28 @@
+import { invariantResponse } from '@epic-web/invariant'
+import {
+	calendarResponse,
+	createCalendar,
+	getDinnerCalendarEvents,
+} from '#app/utils/calendar.server.ts'
+import { prisma } from '#app/utils/db.server.ts'
+import { getDomainUrl } from '#app/utils/misc.tsx'
+import { type Route } from './+types/calendar.$token.dinners[.ics].ts'
+
+// Calendar apps can't sign in, so the feed is only protected by the secret
+// token in its URL, which people can reset from their profile settings
+export async function loader({ request, params }: Route.LoaderArgs) {
+	const user = await prisma.user.findUnique({
+		where: { calendarFeedToken: params.token },
+		select: { id: true },
+	})
+	invariantResponse(user, 'Not found', { status: 404 })
+
+	const events = await getDinnerCalendarEvents(user.id, {
+		domain: getDomainUrl(request),
+		upcomingOnly: true,
+	})
+	return calendarResponse(
+		createCalendar({ name: 'My dinners', events }),
+		'dinners.ics',
+	)
+}
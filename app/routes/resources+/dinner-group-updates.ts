@@ -0,0 +1,57 @@
+import { invariantResponse } from '@epic-web/invariant'
+import { data } from 'react-router'
+import { eventStream } from 'remix-utils/sse/server'
+import { z } from 'zod'
+import { requireUserId } from '#app/utils/auth.server.ts'
+import {
+	receiveDinnerGroupChange,
+	subscribeToDinnerGroupUpdates,
+} from '#app/utils/dinner-group-updates.server.ts'
+import { type Route } from './+types/dinner-group-updates.ts'
+
+const ForwardedChangeSchema = z.intersection(
+	z.discriminatedUnion('type', [
+		z.object({
+			type: z.literal('update'),
+			eventId: z.string(),
+			date: z.string(),
+		}),
+		z.object({ type: z.literal('message'), dinnerGroupId: z.string() }),
+	]),
+	z.object({ txNumber: z.number() }),
+)
+
+export async function loader({ request }: Route.LoaderArgs) {
+	await requireUserId(request)
+	const eventId = new URL(request.url).searchParams.get('eventId')
+	invariantResponse(eventId, 'eventId is required', { status: 400 })
+
+	return eventStream(request.signal, (send) => {
+		return subscribeToDinnerGroupUpdates(eventId, ({ date }) => {
+			// the timestamp makes every update a new value for useEventSource
+			send({ data: JSON.stringify({ date, at: Date.now() }) })
+		})
+	})
+}
+
+// The primary forwards dinner group changes here so replicas can pass them on
+// to their own clients
+export async function action({ request }: Route.ActionArgs) {
+	const token = process.env.INTERNAL_COMMAND_TOKEN
+	const isAuthorized =
+		request.headers.get('Authorization') === `Bearer ${token}`
+	invariantResponse(isAuthorized, 'Unauthorized', { status: 401 })
+
+	const result = ForwardedChangeSchema.safeParse(
+		await request.json().catch(() => null),
+	)
+	if (!result.success) {
+		return data(
+			{ status: 'error', error: result.error.issues[0]?.message } as const,
+			{ status: 400 },
+		)
+	}
+
+	await receiveDinnerGroupChange(result.data)
+	return { success: true }
+}
@@ -0,0 +1,140 @@
+import { data, useFetcher } from 'react-router'
+import { z } from 'zod'
+import { SelectField, TextareaField } from '#app/components/forms.tsx'
+import { StatusButton } from '#app/components/ui/status-button.tsx'
+import { requireUserId } from '#app/utils/auth.server.ts'
+import {
+	deleteRestaurantReview,
+	saveRestaurantReview,
+} from '#app/utils/restaurant-reviews.server.ts'
+import { RESTAURANT_REVIEW_MAX_LENGTH } from '#app/utils/restaurant-reviews.ts'
+import { type Route } from './+types/restaurant-reviews.ts'
+
+const RestaurantReviewActionSchema = z.discriminatedUnion('intent', [
+	z.object({
+		intent: z.literal('save'),
+		restaurantId: z.string(),
+		rating: z.coerce
+			.number()
+			.int()
+			.min(1, 'Rating must be 1 to 5')
+			.max(5, 'Rating must be 1 to 5'),
+		content: z
+			.string()
+			.trim()
+			.max(RESTAURANT_REVIEW_MAX_LENGTH, 'Review is too long')
+			.transform((content) => content || null),
+	}),
+	z.object({
+		intent: z.literal('delete'),
+		restaurantId: z.string(),
+	}),
+])
+
+const RATING_OPTIONS = [
+	{ value: '5', label: '5 - Loved it' },
+	{ value: '4', label: '4 - Really good' },
+	{ value: '3', label: '3 - Fine' },
+	{ value: '2', label: '2 - Not great' },
+	{ value: '1', label: "1 - Wouldn't go back" },
+]
+
+export async function action({ request }: Route.ActionArgs) {
+	const userId = await requireUserId(request)
+	const formData = await request.formData()
+	const result = RestaurantReviewActionSchema.safeParse(
+		Object.fromEntries(formData),
+	)
+	if (!result.success) {
+		return data(
+			{ status: 'error', error: result.error.issues[0]?.message } as const,
+			{ status: 400 },
+		)
+	}
+
+	switch (result.data.intent) {
+		case 'save': {
+			const { restaurantId, rating, content } = result.data
+			const saveResult = await saveRestaurantReview(userId, restaurantId, {
+				rating,
+				content,
+			})
+			if (saveResult.status === 'error') {
+				return data(saveResult, { status: 403 })
+			}
+			break
+		}
+		case 'delete': {
+			await deleteRestaurantReview(userId, result.data.restaurantId)
+			break
+		}
+	}
+
+	return { status: 'success' } as const
+}
+
+export function RestaurantReviewForm({
+	restaurantId,
+	review,
+}: {
+	restaurantId: string
+	review: { rating: number; content: string | null } | null
+}) {
+	const fetcher = useFetcher<typeof action>()
+	const error =
+		fetcher.data && 'error' in fetcher.data ? fetcher.data.error : null
+	const pendingIntent = fetcher.formData?.get('intent')
+
+	return (
+		<fetcher.Form
+			method="POST"
+			action="/resources/restaurant-reviews"
+			className="flex flex-col"
+		>
+			<input type="hidden" name="restaurantId" value={restaurantId} />
+			<SelectField
+				labelProps={{ children: 'Your rating' }}
+				selectProps={{
+					id: `rating-${restaurantId}`,
+					name: 'rating',
+					defaultValue: review?.rating.toString() ?? '5',
+				}}
+				options={RATING_OPTIONS}
+			/>
+			<TextareaField
+				labelProps={{ children: 'Review (optional)' }}
+				textareaProps={{
+					id: `review-${restaurantId}`,
+					name: 'content',
+					defaultValue: review?.content ?? '',
+					maxLength: RESTAURANT_REVIEW_MAX_LENGTH,
+					placeholder: 'How was dinner?',
+				}}
+			/>
+			<div className="flex gap-2">
+				<StatusButton
+					type="submit"
+					name="intent"
+					value="save"
+					status={pendingIntent === 'save' ? 'pending' : 'idle'}
+				>
+					{review ? 'Update review' : 'Save review'}
+				</StatusButton>
+				{review ? (
+					<StatusButton
+						type="submit"
+						name="intent"
+						value="delete"
+						variant="outline"
+						status={pendingIntent === 'delete' ? 'pending' : 'idle'}
+					>
+						Delete
+					</StatusButton>
+				) : null}
+			</div>
+			{error ? (
+				<p className="mt-2 text-sm text-foreground-destructive">{error}</p>
+			) : null}
+		</fetcher.Form>
+	)
+}
@@ -0,0 +1,265 @@
+import { formatDistanceToNow } from 'date-fns'
+import { useEffect, useState } from 'react'
+import { Form, useFetcher, useNavigation } from 'react-router'
+import { z } from 'zod'
+import { Button } from '#app/components/ui/button.tsx'
+import { Icon } from '#app/components/ui/icon.tsx'
+import { StatusButton } from '#app/components/ui/status-button.tsx'
+import { requireUserId } from '#app/utils/auth.server.ts'
+import { prisma } from '#app/utils/db.server.ts'
+import {
+	savePushSubscription,
+	sendPushToUsers,
+} from '#app/utils/push-notifications.server.ts'
+import { isPushServiceEndpoint } from '#app/utils/web-push.server.ts'
+import { type Route } from './+types/profile.devices.ts'
+
+export const handle = {
+	breadcrumb: <Icon name="laptop">Devices</Icon>,
+}
+
+const SubscriptionSchema = z.object({
+	endpoint: z.string().url().refine(isPushServiceEndpoint),
+	p256dh: z.string().min(1),
+	auth: z.string().min(1),
+})
+
+export async function loader({ request }: Route.LoaderArgs) {
+	const userId = await requireUserId(request)
+	const subscriptions = await prisma.pushSubscription.findMany({
+		where: { userId },
+		orderBy: { createdAt: 'desc' },
+		select: {
+			id: true,
+			userAgent: true,
+			createdAt: true,
+		},
+	})
+	return { subscriptions }
+}
+
+export async function action({ request }: Route.ActionArgs) {
+	const userId = await requireUserId(request)
+	const formData = await request.formData()
+	const intent = formData.get('intent')
+
+	if (intent === 'subscribe') {
+		const result = SubscriptionSchema.safeParse(Object.fromEntries(formData))
+		if (!result.success) {
+			return Response.json(
+				{ status: 'error', error: 'Invalid subscription' },
+				{ status: 400 },
+			)
+		}
+		await savePushSubscription(
+			userId,
+			result.data,
+			request.headers.get('user-agent'),
+		)
+		return Response.json({ status: 'success' })
+	}
+
+	if (intent === 'delete') {
+		const subscriptionId = formData.get('subscriptionId')
+		if (typeof subscriptionId !== 'string') {
+			return Response.json(
+				{ status: 'error', error: 'Invalid subscription ID' },
+				{ status: 400 },
+			)
+		}
+
+		await prisma.pushSubscription.delete({
+			where: {
+				id: subscriptionId,
+				userId, // Ensure the subscription belongs to the user
+			},
+		})
+		return Response.json({ status: 'success' })
+	}
+
+	if (intent === 'test') {
+		await sendPushToUsers([userId], {
+			title: 'Notifications are on',
+			body: "This is how we'll let you know about your dinners.",
+			url: '/settings/profile/devices',
+		})
+		return Response.json({ status: 'success' })
+	}
+
+	return Response.json(
+		{ status: 'error', error: 'Invalid intent' },
+		{ status: 400 },
+	)
+}
+
+function urlBase64ToUint8Array(base64Url: string) {
+	const base64 = (base64Url + '='.repeat((4 - (base64Url.length % 4)) % 4))
+		.replace(/-/g, '+')
+		.replace(/_/g, '/')
+	return Uint8Array.from(atob(base64), (char) => char.charCodeAt(0))
+}
+
+function arrayBufferToBase64Url(buffer: ArrayBuffer | null) {
+	if (!buffer) return ''
+	return btoa(String.fromCharCode(...new Uint8Array(buffer)))
+		.replace(/\+/g, '-')
+		.replace(/\//g, '_')
+		.replace(/=+$/, '')
+}
+
+function describeDevice(userAgent: string | null) {
+	if (!userAgent) return 'Unknown device'
+	const browser =
+		['Edg', 'Firefox', 'Chrome', 'Safari'].find((name) =>
+			userAgent.includes(`${name}/`),
+		) ?? 'Browser'
+	const os =
+		['iPhone', 'iPad', 'Android', 'Mac OS X', 'Windows', 'Linux'].find((name) =>
+			userAgent.includes(name),
+		) ?? 'unknown system'
+	return `${browser === 'Edg' ? 'Edge' : browser} on ${os === 'Mac OS X' ? 'macOS' : os}`
+}
+
+export default function Devices({ loaderData }: Route.ComponentProps) {
+	const fetcher = useFetcher()
+	const navigation = useNavigation()
+	const isTesting = navigation.formData?.get('intent') === 'test'
+	const [error, setError] = useState<string | null>(null)
+	const [isSupported, setIsSupported] = useState(true)
+	const vapidPublicKey = ENV.VAPID_PUBLIC_KEY
+
+	useEffect(() => {
+		setIsSupported('serviceWorker' in navigator && 'PushManager' in window)
+	}, [])
+
+	async function handleSubscribe() {
+		try {
+			setError(null)
+			if (!vapidPublicKey) throw new Error('Web push is not configured')
+			const permission = await Notification.requestPermission()
+			if (permission !== 'granted') {
+				setError(
+					'Notifications are blocked. Allow them in your browser settings and try again.',
+				)
+				return
+			}
+
+			const registration =
+				await navigator.serviceWorker.register('/service-worker.js')
+			await navigator.serviceWorker.ready
+			const subscription = await registration.pushManager.subscribe({
+				userVisibleOnly: true,
+				applicationServerKey: urlBase64ToUint8Array(vapidPublicKey),
+			})
+
+			await fetcher.submit(
+				{
+					intent: 'subscribe',
+					endpoint: subscription.endpoint,
+					p256dh: arrayBufferToBase64Url(subscription.getKey('p256dh')),
+					auth: arrayBufferToBase64Url(subscription.getKey('auth')),
+				},
+				{ method: 'POST' },
+			)
+		} catch (err) {
+			console.error('Failed to turn on notifications:', err)
+			setError('Failed to turn on notifications. Please try again.')
+		}
+	}
+
+	return (
+		<div className="flex flex-col gap-6">
+			<div className="flex justify-between gap-4">
+				<h1 className="text-h1">Devices</h1>
+				{isSupported && vapidPublicKey ? (
+					<form action={handleSubscribe}>
+						<StatusButton
+							type="submit"
+							variant="secondary"
+							status={fetcher.state !== 'idle' ? 'pending' : 'idle'}
+							className="flex items-center gap-2"
+						>
+							<Icon name="plus">Notify this device</Icon>
+						</StatusButton>
+					</form>
+				) : null}
+			</div>
+
+			<p className="text-muted-foreground">
+				Get a notification when someone joins your dinner, when its time
+				changes, and half an hour before it starts.
+			</p>
+
+			{!isSupported ? (
+				<div className="rounded-lg bg-muted p-4 text-muted-foreground">
+					This browser doesn't support push notifications. On iPhone and iPad,
+					add this site to your home screen first.
+				</div>
+			) : null}
+
+			{error || fetcher.data?.status === 'error' ? (
+				<div className="rounded-lg bg-destructive/15 p-4 text-destructive">
+					{error ?? fetcher.data?.error}
+				</div>
+			) : null}
+
+			{loaderData.subscriptions.length ? (
+				<>
+					<ul className="flex flex-col gap-4" title="devices">
+						{loaderData.subscriptions.map((subscription) => (
+							<li
+								key={subscription.id}
+								className="flex items-center justify-between gap-4 rounded-lg border border-muted-foreground p-4"
+							>
+								<div className="flex flex-col gap-2">
+									<div className="flex items-center gap-2">
+										<Icon name="laptop" />
+										<span className="font-semibold">
+											{describeDevice(subscription.userAgent)}
+										</span>
+									</div>
+									<div className="text-sm text-muted-foreground">
+										Added{' '}
+										{formatDistanceToNow(new Date(subscription.createdAt))} ago
+									</div>
+								</div>
+								<Form method="POST">
+									<input
+										type="hidden"
+										name="subscriptionId"
+										value={subscription.id}
+									/>
+									<Button
+										type="submit"
+										name="intent"
+										value="delete"
+										variant="destructive"
+										size="sm"
+										className="flex items-center gap-2"
+									>
+										<Icon name="trash">Remove</Icon>
+									</Button>
+								</Form>
+							</li>
+						))}
+					</ul>
+					<Form method="POST">
+						<StatusButton
+							type="submit"
+							name="intent"
+							value="test"
+							variant="secondary"
+							status={isTesting ? 'pending' : 'idle'}
+						>
+							Send a test notification
+						</StatusButton>
+					</Form>
+				</>
+			) : (
+				<div className="text-center text-muted-foreground">
+					No devices get notifications yet
+				</div>
+			)}
+		</div>
+	)
+}
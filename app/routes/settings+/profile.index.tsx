@@ -1,17 +1,33 @@
-import { getFormProps, getInputProps, useForm } from '@conform-to/react'
+import {
+	getFormProps,
+	getInputProps,
+	getSelectProps,
+	useForm,
+} from '@conform-to/react'
 import { getZodConstraint, parseWithZod } from '@conform-to/zod'
 import { invariantResponse } from '@epic-web/invariant'
 import { type SEOHandle } from '@nasa-gcn/remix-seo'
 import { Img } from 'openimg/react'
 import { data, Link, useFetcher } from 'react-router'
 import { z } from 'zod'
-import { ErrorList, Field } from '#app/components/forms.tsx'
+import {
+	CheckboxField,
+	ErrorList,
+	Field,
+	SelectField,
+} from '#app/components/forms.tsx'
 import { Button } from '#app/components/ui/button.tsx'
 import { Icon } from '#app/components/ui/icon.tsx'
 import { StatusButton } from '#app/components/ui/status-button.tsx'
 import { requireUserId, sessionKey } from '#app/utils/auth.server.ts'
+import { createCalendarFeedToken } from '#app/utils/calendar.server.ts'
 import { prisma } from '#app/utils/db.server.ts'
-import { getUserImgSrc, useDoubleCheck } from '#app/utils/misc.tsx'
+import { type DinnersVisibility } from '#app/utils/dinner-history.server.ts'
+import {
+	getDomainUrl,
+	getUserImgSrc,
+	useDoubleCheck,
+} from '#app/utils/misc.tsx'
 import { authSessionStorage } from '#app/utils/session.server.ts'
 import { redirectWithToast } from '#app/utils/toast.server.ts'
 import { NameSchema, UsernameSchema } from '#app/utils/user-validation.ts'
@@ -27,6 +43,27 @@ const ProfileFormSchema = z.object({
 	username: UsernameSchema,
 })
 
+const dinnersVisibilityOptions = [
+	{ value: 'everyone', label: 'Everyone' },
+	{ value: 'signed-in', label: 'People who are signed in' },
+	{ value: 'nobody', label: 'Only me' },
+] as const satisfies ReadonlyArray<{
+	value: DinnersVisibility
+	label: string
+}>
+
+const PrivacyFormSchema = z.object({
+	hideNameInDinners: z.boolean().default(false),
+	dinnersVisibility: z.enum(['everyone', 'signed-in', 'nobody']),
+})
+
+const NotificationsFormSchema = z.object({
+	emailOnDinnerGroupJoin: z.boolean().default(false),
+	emailOnDinnerGroupUpdate: z.boolean().default(false),
+	emailOnDinnerGroupDissolved: z.boolean().default(false),
+	emailDinnerDigest: z.boolean().default(false),
+})
+
 export async function loader({ request }: Route.LoaderArgs) {
 	const userId = await requireUserId(request)
 	const user = await prisma.user.findUniqueOrThrow({
@@ -36,6 +73,13 @@ export async function loader({ request }: Route.LoaderArgs) {
 			name: true,
 			username: true,
 			email: true,
+			hideNameInDinners: true,
+			dinnersVisibility: true,
+			calendarFeedToken: true,
+			emailOnDinnerGroupJoin: true,
+			emailOnDinnerGroupUpdate: true,
+			emailOnDinnerGroupDissolved: true,
+			emailDinnerDigest: true,
 			image: {
 				select: { objectKey: true },
 			},
@@ -61,8 +105,14 @@ export async function loader({ request }: Route.LoaderArgs) {
 		where: { userId },
 	})
 
+	// webcal:// links open straight in the visitor's calendar app
+	const calendarFeedUrl = user.calendarFeedToken
+		? `${getDomainUrl(request).replace(/^https?:/, 'webcal:')}/resources/calendar/${user.calendarFeedToken}/dinners.ics`
+		: null
+
 	return {
 		user,
+		calendarFeedUrl,
 		hasPassword: Boolean(password),
 		isTwoFactorEnabled: Boolean(twoFactorVerification),
 	}
@@ -74,7 +124,10 @@ type ProfileActionArgs = {
 	formData: FormData
 }
 const profileUpdateActionIntent = 'update-profile'
+const privacyUpdateActionIntent = 'update-privacy'
+const notificationsUpdateActionIntent = 'update-notifications'
 const signOutOfSessionsActionIntent = 'sign-out-of-sessions'
+const resetCalendarFeedActionIntent = 'reset-calendar-feed'
 const deleteDataActionIntent = 'delete-data'
 
 export async function action({ request }: Route.ActionArgs) {
@@ -85,9 +138,18 @@ export async function action({ request }: Route.ActionArgs) {
 		case profileUpdateActionIntent: {
 			return profileUpdateAction({ request, userId, formData })
 		}
+		case privacyUpdateActionIntent: {
+			return privacyUpdateAction({ request, userId, formData })
+		}
+		case notificationsUpdateActionIntent: {
+			return notificationsUpdateAction({ request, userId, formData })
+		}
 		case signOutOfSessionsActionIntent: {
 			return signOutOfSessionsAction({ request, userId, formData })
 		}
+		case resetCalendarFeedActionIntent: {
+			return resetCalendarFeedAction({ request, userId, formData })
+		}
 		case deleteDataActionIntent: {
 			return deleteDataAction({ request, userId, formData })
 		}
@@ -127,6 +189,8 @@ export default function EditUserProfile({ loaderData }: Route.ComponentProps) {
 				</div>
 			</div>
 			<UpdateProfile loaderData={loaderData} />
+			<UpdatePrivacy loaderData={loaderData} />
+			<UpdateNotifications loaderData={loaderData} />
 
 			<div className="col-span-6 my-6 h-1 border-b-[1.5px] border-foreground" />
 			<div className="col-span-full flex flex-col gap-6">
@@ -163,6 +227,11 @@ export default function EditUserProfile({ loaderData }: Route.ComponentProps) {
 						<Icon name="passkey">Manage passkeys</Icon>
 					</Link>
 				</div>
+				<div>
+					<Link to="devices">
+						<Icon name="laptop">Manage notifications</Icon>
+					</Link>
+				</div>
 				<div>
 					<Link
 						reloadDocument
@@ -172,6 +241,7 @@ export default function EditUserProfile({ loaderData }: Route.ComponentProps) {
 						<Icon name="download">Download your data</Icon>
 					</Link>
 				</div>
+				<CalendarFeed loaderData={loaderData} />
 				<SignOutOfSessions loaderData={loaderData} />
 				<DeleteData />
 			</div>
@@ -274,6 +344,179 @@ function UpdateProfile({ loaderData }: { loaderData: Info['loaderData'] }) {
 	)
 }
 
+async function privacyUpdateAction({ userId, formData }: ProfileActionArgs) {
+	const submission = parseWithZod(formData, { schema: PrivacyFormSchema })
+	if (submission.status !== 'success') {
+		return data(
+			{ result: submission.reply() },
+			{ status: submission.status === 'error' ? 400 : 200 },
+		)
+	}
+
+	await prisma.user.update({
+		select: { id: true },
+		where: { id: userId },
+		data: submission.value,
+	})
+
+	return {
+		result: submission.reply(),
+	}
+}
+
+function UpdatePrivacy({ loaderData }: { loaderData: Info['loaderData'] }) {
+	const fetcher = useFetcher<typeof privacyUpdateAction>()
+
+	const [form, fields] = useForm({
+		id: 'edit-privacy',
+		constraint: getZodConstraint(PrivacyFormSchema),
+		lastResult: fetcher.data?.result,
+		onValidate({ formData }) {
+			return parseWithZod(formData, { schema: PrivacyFormSchema })
+		},
+		defaultValue: {
+			hideNameInDinners: loaderData.user.hideNameInDinners ? 'on' : undefined,
+			dinnersVisibility: loaderData.user.dinnersVisibility,
+		},
+	})
+
+	return (
+		<fetcher.Form method="POST" {...getFormProps(form)}>
+			<h2 className="mb-4 text-h5">Privacy</h2>
+			<CheckboxField
+				labelProps={{
+					htmlFor: fields.hideNameInDinners.id,
+					children:
+						'Hide my name and photo from other people in my dinner groups',
+				}}
+				buttonProps={getInputProps(fields.hideNameInDinners, {
+					type: 'checkbox',
+				})}
+				errors={fields.hideNameInDinners.errors}
+			/>
+			<SelectField
+				className="mt-4"
+				labelProps={{
+					htmlFor: fields.dinnersVisibility.id,
+					children: 'Who can see my dinners on my profile',
+				}}
+				selectProps={getSelectProps(fields.dinnersVisibility)}
+				options={dinnersVisibilityOptions}
+				errors={fields.dinnersVisibility.errors}
+			/>
+
+			<ErrorList errors={form.errors} id={form.errorId} />
+
+			<div className="mt-4 flex justify-center">
+				<StatusButton
+					type="submit"
+					size="wide"
+					name="intent"
+					value={privacyUpdateActionIntent}
+					status={
+						fetcher.state !== 'idle' ? 'pending' : (form.status ?? 'idle')
+					}
+				>
+					Save privacy settings
+				</StatusButton>
+			</div>
+		</fetcher.Form>
+	)
+}
+
+async function notificationsUpdateAction({
+	userId,
+	formData,
+}: ProfileActionArgs) {
+	const submission = parseWithZod(formData, {
+		schema: NotificationsFormSchema,
+	})
+	if (submission.status !== 'success') {
+		return data(
+			{ result: submission.reply() },
+			{ status: submission.status === 'error' ? 400 : 200 },
+		)
+	}
+
+	await prisma.user.update({
+		select: { id: true },
+		where: { id: userId },
+		data: submission.value,
+	})
+
+	return {
+		result: submission.reply(),
+	}
+}
+
+const notificationOptions = [
+	['emailOnDinnerGroupJoin', 'Someone joins my dinner group'],
+	['emailOnDinnerGroupUpdate', 'The organizer changes the time or notes'],
+	[
+		'emailOnDinnerGroupDissolved',
+		"A dinner group I'm on the waitlist for is dissolved because everyone left",
+	],
+	['emailDinnerDigest', 'An afternoon digest of dinner groups forming tonight'],
+] as const
+
+function UpdateNotifications({
+	loaderData,
+}: {
+	loaderData: Info['loaderData']
+}) {
+	const fetcher = useFetcher<typeof notificationsUpdateAction>()
+	const { user } = loaderData
+
+	const [form, fields] = useForm({
+		id: 'edit-notifications',
+		constraint: getZodConstraint(NotificationsFormSchema),
+		lastResult: fetcher.data?.result,
+		onValidate({ formData }) {
+			return parseWithZod(formData, { schema: NotificationsFormSchema })
+		},
+		defaultValue: {
+			emailOnDinnerGroupJoin: user.emailOnDinnerGroupJoin ? 'on' : undefined,
+			emailOnDinnerGroupUpdate: user.emailOnDinnerGroupUpdate
+				? 'on'
+				: undefined,
+			emailOnDinnerGroupDissolved: user.emailOnDinnerGroupDissolved
+				? 'on'
+				: undefined,
+			emailDinnerDigest: user.emailDinnerDigest ? 'on' : undefined,
+		},
+	})
+
+	return (
+		<fetcher.Form method="POST" {...getFormProps(form)}>
+			<h2 className="mb-4 text-h5">Email me when</h2>
+			{notificationOptions.map(([name, label]) => (
+				<CheckboxField
+					key={name}
+					labelProps={{ htmlFor: fields[name].id, children: label }}
+					buttonProps={getInputProps(fields[name], { type: 'checkbox' })}
+					errors={fields[name].errors}
+				/>
+			))}
+
+			<ErrorList errors={form.errors} id={form.errorId} />
+
+			<div className="mt-4 flex justify-center">
+				<StatusButton
+					type="submit"
+					size="wide"
+					name="intent"
+					value={notificationsUpdateActionIntent}
+					status={
+						fetcher.state !== 'idle' ? 'pending' : (form.status ?? 'idle')
+					}
+				>
+					Update email settings
+				</StatusButton>
+			</div>
+		</fetcher.Form>
+	)
+}
+
 async function signOutOfSessionsAction({ request, userId }: ProfileActionArgs) {
 	const authSession = await authSessionStorage.getSession(
 		request.headers.get('cookie'),
@@ -332,6 +575,67 @@ function SignOutOfSessions({
 	)
 }
 
+async function resetCalendarFeedAction({ userId }: ProfileActionArgs) {
+	// a new token also stops anyone with the old link from reading the feed
+	await prisma.user.update({
+		select: { id: true },
+		where: { id: userId },
+		data: { calendarFeedToken: createCalendarFeedToken() },
+	})
+	return { status: 'success' } as const
+}
+
+function CalendarFeed({ loaderData }: { loaderData: Info['loaderData'] }) {
+	const dc = useDoubleCheck()
+	const fetcher = useFetcher<typeof resetCalendarFeedAction>()
+	const { calendarFeedUrl } = loaderData
+	const status = fetcher.state !== 'idle' ? 'pending' : 'idle'
+
+	if (!calendarFeedUrl) {
+		return (
+			<fetcher.Form method="POST">
+				<StatusButton
+					type="submit"
+					name="intent"
+					value={resetCalendarFeedActionIntent}
+					variant="secondary"
+					status={status}
+				>
+					<Icon name="clock">Subscribe to your dinners in a calendar app</Icon>
+				</StatusButton>
+			</fetcher.Form>
+		)
+	}
+
+	return (
+		<div className="flex flex-col gap-2">
+			<a href={calendarFeedUrl}>
+				<Icon name="clock">Subscribe to your dinners in a calendar app</Icon>
+			</a>
+			<p className="text-body-xs text-muted-foreground">
+				Anyone with this link can see your dinners:{' '}
+				<code className="break-all">{calendarFeedUrl}</code>
+			</p>
+			<fetcher.Form method="POST">
+				<StatusButton
+					{...dc.getButtonProps({
+						type: 'submit',
+						name: 'intent',
+						value: resetCalendarFeedActionIntent,
+					})}
+					variant={dc.doubleCheck ? 'destructive' : 'outline'}
+					size="sm"
+					status={status}
+				>
+					{dc.doubleCheck
+						? 'Are you sure? The old link will stop working'
+						: 'Reset calendar link'}
+				</StatusButton>
+			</fetcher.Form>
+		</div>
+	)
+}
+
 async function deleteDataAction({ userId }: ProfileActionArgs) {
 	await prisma.user.delete({ where: { id: userId } })
 	return redirectWithToast('/', {
@@ -5,7 +5,7 @@ import { faker } from '@faker-js/faker'
 import { render, screen } from '@testing-library/react'
 import { createRoutesStub } from 'react-router'
 import setCookieParser from 'set-cookie-parser'
-import { test } from 'vitest'
+import { expect, test } from 'vitest'
 import { loader as rootLoader } from '#app/root.tsx'
 import { getSessionExpirationDate, sessionKey } from '#app/utils/auth.server.ts'
 import { prisma } from '#app/utils/db.server.ts'
@@ -95,3 +95,65 @@ test('The user profile when logged in as self', async () => {
 	await screen.findByRole('link', { name: /my notes/i })
 	await screen.findByRole('link', { name: /edit profile/i })
 })
+
+test('The user profile lists dinners when they are shared with everyone', async () => {
+	const [user, companion, privateCompanion] = await Promise.all(
+		[{ dinnersVisibility: 'everyone' }, {}, { hideNameInDinners: true }].map(
+			(settings) =>
+				prisma.user.create({
+					select: { id: true, username: true, name: true },
+					data: { ...createUser(), ...settings },
+				}),
+		),
+	)
+	const today = new Date(new Date().toISOString().slice(0, 10))
+	const event = await prisma.event.create({
+		select: { id: true },
+		data: {
+			slug: 'profile-conference',
+			name: 'Profile Conference',
+			venueName: 'Hilton Salt Lake City Center',
+			address: '255 S West Temple, Salt Lake City, UT 84101',
+			lat: 40.7596,
+			lng: -111.8867,
+			startDate: today,
+			endDate: today,
+			timezone: 'UTC',
+		},
+	})
+	await prisma.dinnerGroup.create({
+		data: {
+			event: { connect: { id: event.id } },
+			restaurant: {
+				create: {
+					id: 'profile-bistro',
+					name: 'Profile Bistro',
+					lat: 40.76,
+					lng: -111.89,
+				},
+			},
+			date: today.toISOString().slice(0, 10),
+			attendees: {
+				create: [user!, companion!, privateCompanion!].map(({ id }) => ({
+					userId: id,
+				})),
+			},
+		},
+	})
+	const App = createRoutesStub([
+		{
+			path: '/users/:username',
+			Component: UsernameRoute,
+			loader,
+			HydrateFallback: () => <div>Loading...</div>,
+		},
+	])
+
+	render(<App initialEntries={[`/users/${user!.username}`]} />)
+
+	await screen.findByRole('heading', { name: 'Upcoming dinners' })
+	await screen.findByRole('link', { name: 'Profile Bistro' })
+	await screen.findByRole('link', { name: companion!.name! })
+	await screen.findByText('Private attendee')
+	expect(screen.queryByText(privateCompanion!.name!)).not.toBeInTheDocument()
+})
@@ -10,18 +10,26 @@ import { GeneralErrorBoundary } from '#app/components/error-boundary.tsx'
 import { Spacer } from '#app/components/spacer.tsx'
 import { Button } from '#app/components/ui/button.tsx'
 import { Icon } from '#app/components/ui/icon.tsx'
+import { RestaurantReviewForm } from '#app/routes/resources+/restaurant-reviews.tsx'
+import { getUserId } from '#app/utils/auth.server.ts'
 import { prisma } from '#app/utils/db.server.ts'
+import {
+	canSeeProfileDinners,
+	getProfileDinners,
+} from '#app/utils/dinner-history.server.ts'
+import { formatNight, formatTime } from '#app/utils/events.ts'
 import { getUserImgSrc } from '#app/utils/misc.tsx'
 import { useOptionalUser } from '#app/utils/user.ts'
 import { type Route } from './+types/$username.ts'
 
-export async function loader({ params }: LoaderFunctionArgs) {
+export async function loader({ params, request }: LoaderFunctionArgs) {
 	const user = await prisma.user.findFirst({
 		select: {
 			id: true,
 			name: true,
 			username: true,
 			createdAt: true,
+			dinnersVisibility: true,
 			image: { select: { id: true, objectKey: true } },
 		},
 		where: {
@@ -31,7 +39,16 @@ export async function loader({ params }: LoaderFunctionArgs) {
 
 	invariantResponse(user, 'User not found', { status: 404 })
 
-	return { user, userJoinedDisplay: user.createdAt.toLocaleDateString() }
+	const viewerId = await getUserId(request)
+	const dinners = canSeeProfileDinners(user, viewerId)
+		? await getProfileDinners(user.id, viewerId)
+		: null
+
+	return {
+		user,
+		userJoinedDisplay: user.createdAt.toLocaleDateString(),
+		dinners,
+	}
 }
 
 export default function ProfileRoute() {
@@ -102,10 +119,183 @@ export default function ProfileRoute() {
 					</div>
 				</div>
 			</div>
+
+			{data.dinners ? (
+				<>
+					<Spacer size="sm" />
+					<div className="container flex max-w-3xl flex-col gap-8">
+						<DinnerList
+							title={
+								isLoggedInUser ? 'My upcoming dinners' : 'Upcoming dinners'
+							}
+							dinners={data.dinners.upcoming}
+							emptyMessage="No dinner plans yet"
+						/>
+						<DinnerList
+							title="Past dinners"
+							dinners={data.dinners.past}
+							emptyMessage="No past dinners yet"
+							showReviews
+							canReview={isLoggedInUser}
+						/>
+					</div>
+				</>
+			) : null}
+		</div>
+	)
+}
+
+type ProfileDinner = NonNullable<
+	Route.ComponentProps['loaderData']['dinners']
+>['upcoming'][number]
+
+function DinnerList({
+	title,
+	dinners,
+	emptyMessage,
+	showReviews = false,
+	canReview = false,
+}: {
+	title: string
+	dinners: Array<ProfileDinner>
+	emptyMessage: string
+	showReviews?: boolean
+	canReview?: boolean
+}) {
+	return (
+		<section className="flex flex-col gap-4">
+			<h2 className="text-h4">{title}</h2>
+			{dinners.length ? (
+				<ul className="flex flex-col gap-4">
+					{dinners.map((dinner, index) => (
+						<li
+							key={dinner.id}
+							className="flex flex-col gap-3 rounded-lg border border-muted-foreground p-4"
+						>
+							<div className="flex flex-col gap-1">
+								{dinner.dinnerGroupId ? (
+									<Link
+										to={`/dinners/${dinner.dinnerGroupId}`}
+										prefetch="intent"
+										className="font-semibold hover:underline"
+									>
+										{dinner.restaurant.name}
+									</Link>
+								) : (
+									<span className="font-semibold">
+										{dinner.restaurant.name}
+									</span>
+								)}
+								<span className="text-sm text-muted-foreground">
+									{formatNight(dinner.date)}
+									{dinner.reservationTime
+										? ` at ${formatTime(dinner.reservationTime)}`
+										: null}
+									{' · '}
+									{dinner.event.name}
+								</span>
+							</div>
+							{dinner.companions.length ? (
+								<ul className="flex flex-wrap gap-2" aria-label="Companions">
+									{dinner.companions.map((companion, index) => (
+										<li
+											key={
+												companion.isHidden ? `hidden-${index}` : companion.id
+											}
+										>
+											<Companion companion={companion} />
+										</li>
+									))}
+								</ul>
+							) : (
+								<span className="text-sm text-muted-foreground">
+									No one else yet
+								</span>
+							)}
+							{/* one review per restaurant, on the latest dinner there */}
+							{showReviews &&
+							index ===
+								dinners.findIndex(
+									(other) => other.restaurant.id === dinner.restaurant.id,
+								) ? (
+								<DinnerReview dinner={dinner} canReview={canReview} />
+							) : null}
+						</li>
+					))}
+				</ul>
+			) : (
+				<p className="text-muted-foreground">{emptyMessage}</p>
+			)}
+		</section>
+	)
+}
+
+function DinnerReview({
+	dinner,
+	canReview,
+}: {
+	dinner: ProfileDinner
+	canReview: boolean
+}) {
+	if (canReview) {
+		return (
+			<RestaurantReviewForm
+				restaurantId={dinner.restaurant.id}
+				review={dinner.review}
+			/>
+		)
+	}
+	if (!dinner.review) return null
+
+	return (
+		<div className="flex flex-col gap-1 text-sm">
+			<span className="font-semibold">Rated {dinner.review.rating}/5</span>
+			{dinner.review.content ? (
+				<p className="whitespace-pre-wrap">{dinner.review.content}</p>
+			) : null}
 		</div>
 	)
 }
 
+function Companion({
+	companion,
+}: {
+	companion: ProfileDinner['companions'][number]
+}) {
+	if (companion.isHidden) {
+		return (
+			<div className="flex items-center gap-2 rounded-full bg-muted py-1 pl-1 pr-3">
+				<Img
+					src={getUserImgSrc(null)}
+					alt=""
+					className="h-8 w-8 rounded-full object-cover"
+					width={64}
+					height={64}
+				/>
+				<span className="text-sm text-muted-foreground">Private attendee</span>
+			</div>
+		)
+	}
+
+	const displayName = companion.name ?? companion.username
+	return (
+		<Link
+			to={`/users/${companion.username}`}
+			prefetch="intent"
+			className="flex items-center gap-2 rounded-full bg-muted py-1 pl-1 pr-3 hover:bg-muted-foreground/20"
+		>
+			<Img
+				src={getUserImgSrc(companion.imageObjectKey)}
+				alt=""
+				className="h-8 w-8 rounded-full object-cover"
+				width={64}
+				height={64}
+			/>
+			<span className="text-sm">{displayName}</span>
+		</Link>
+	)
+}
+
 export const meta: Route.MetaFunction = ({ data, params }) => {
 	const displayName = data?.user.name ?? params.username
 	return [
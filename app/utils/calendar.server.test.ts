@@ -0,0 +1,53 @@
+import { expect, test } from 'vitest'
+import { createCalendar } from './calendar.server.ts'
+import { getZonedDateTime } from './events.ts'
+
+const event = {
+	uid: 'dinner-group-1@example.com',
+	summary: 'Dinner at Beehive Bistro',
+	location: '100 S Main St, Salt Lake City',
+	url: 'https://maps.example.com/beehive',
+	description: 'Going: Kody; Hannah',
+}
+
+test('timed dinners are written in UTC', () => {
+	const start = getZonedDateTime('2026-10-19', '19:30', 'America/Denver')
+	const calendar = createCalendar({
+		name: 'My dinners',
+		events: [{ ...event, start, end: new Date(start.getTime() + 7_200_000) }],
+	})
+
+	expect(calendar).toContain('DTSTART:20261020T013000Z\r\n')
+	expect(calendar).toContain('DTEND:20261020T033000Z\r\n')
+	expect(calendar).toContain('LOCATION:100 S Main St\\, Salt Lake City\r\n')
+	expect(calendar).toContain('DESCRIPTION:Going: Kody\\; Hannah\r\n')
+})
+
+test('dinners without a reservation time are all-day events', () => {
+	const calendar = createCalendar({
+		name: 'My dinners',
+		events: [{ ...event, start: '2026-10-19', end: '2026-10-20' }],
+	})
+
+	expect(calendar).toContain('DTSTART;VALUE=DATE:20261019\r\n')
+	expect(calendar).toContain('DTEND;VALUE=DATE:20261020\r\n')
+})
+
+test('long lines are folded', () => {
+	const calendar = createCalendar({
+		name: 'My dinners',
+		events: [
+			{
+				...event,
+				description: 'x'.repeat(200),
+				start: '2026-10-19',
+				end: '2026-10-20',
+			},
+		],
+	})
+
+	for (const line of calendar.split('\r\n')) {
+		expect(line.length).toBeLessThanOrEqual(75)
+	}
+	expect(calendar).toContain('\r\n x')
+})
@@ -0,0 +1,204 @@
+import crypto from 'node:crypto'
+import { type Prisma, type User } from '@prisma/client'
+import { prisma } from './db.server.ts'
+import { getTodayInTimeZone, getZonedDateTime } from './events.ts'
+
+// How long a dinner lasts when it has a reservation time
+const DINNER_DURATION_MS = 1000 * 60 * 60 * 2 // 2 hours
+// Lines of an iCalendar file can't be longer than 75 octets
+const MAX_LINE_LENGTH = 75
+
+type CalendarEvent = {
+	uid: string
+	summary: string
+	location: string | null
+	url: string | null
+	description: string
+	// all-day events only have a date
+	start: Date | string
+	end: Date | string
+}
+
+/**
+ * Loads the user's dinners as calendar events, listing the people going the
+ * same way the dinner group page does.
+ */
+export async function getDinnerCalendarEvents(
+	userId: User['id'],
+	{
+		domain,
+		where,
+		upcomingOnly = false,
+	}: {
+		domain: string
+		where?: Prisma.DinnerGroupWhereInput
+		upcomingOnly?: boolean
+	},
+) {
+	const dinnerGroups = await prisma.dinnerGroup.findMany({
+		where: { ...where, attendees: { some: { userId } } },
+		orderBy: [{ date: 'asc' }, { reservationTime: 'asc' }],
+		select: {
+			id: true,
+			date: true,
+			reservationTime: true,
+			notes: true,
+			event: { select: { name: true, timezone: true } },
+			restaurant: { select: { name: true, address: true, mapsUrl: true } },
+			attendees: {
+				orderBy: { createdAt: 'asc' },
+				select: {
+					user: {
+						select: {
+							id: true,
+							name: true,
+							username: true,
+							hideNameInDinners: true,
+						},
+					},
+				},
+			},
+		},
+	})
+
+	return dinnerGroups
+		.filter(
+			(group) =>
+				!upcomingOnly || group.date >= getTodayInTimeZone(group.event.timezone),
+		)
+		.map((group): CalendarEvent => {
+			const going = group.attendees.map(({ user }) =>
+				user.hideNameInDinners && user.id !== userId
+					? 'Private attendee'
+					: (user.name ?? user.username),
+			)
+			const description = [
+				`Dinner during ${group.event.name}`,
+				group.notes,
+				`Going: ${going.join(', ')}`,
+				`${domain}/dinners/${group.id}`,
+			]
+				.filter(Boolean)
+				.join('\n\n')
+			const start = group.reservationTime
+				? getZonedDateTime(
+						group.date,
+						group.reservationTime,
+						group.event.timezone,
+					)
+				: group.date
+			return {
+				uid: `dinner-group-${group.id}@${new URL(domain).host}`,
+				summary: `Dinner at ${group.restaurant.name}`,
+				location: group.restaurant.address,
+				url: group.restaurant.mapsUrl,
+				description,
+				start,
+				end:
+					typeof start === 'string'
+						? getNextDay(start)
+						: new Date(start.getTime() + DINNER_DURATION_MS),
+			}
+		})
+}
+
+/**
+ * Builds an iCalendar (RFC 5545) file with the given events.
+ */
+export function createCalendar({
+	name,
+	events,
+}: {
+	name: string
+	events: Array<CalendarEvent>
+}) {
+	const stamp = formatDateTime(new Date())
+	const lines = [
+		'BEGIN:VCALENDAR',
+		'VERSION:2.0',
+		'PRODID:-//Epic Notes//Dinners//EN',
+		'CALSCALE:GREGORIAN',
+		'METHOD:PUBLISH',
+		`X-WR-CALNAME:${escapeText(name)}`,
+		// ask subscribed calendars to check for joined and left dinners hourly
+		'REFRESH-INTERVAL;VALUE=DURATION:PT1H',
+		'X-PUBLISHED-TTL:PT1H',
+		...events.flatMap((event) => [
+			'BEGIN:VEVENT',
+			`UID:${event.uid}`,
+			`DTSTAMP:${stamp}`,
+			formatDateProperty('DTSTART', event.start),
+			formatDateProperty('DTEND', event.end),
+			`SUMMARY:${escapeText(event.summary)}`,
+			event.location ? `LOCATION:${escapeText(event.location)}` : null,
+			event.url ? `URL:${event.url}` : null,
+			`DESCRIPTION:${escapeText(event.description)}`,
+			'END:VEVENT',
+		]),
+		'END:VCALENDAR',
+	]
+	return (
+		lines
+			.filter((line) => line !== null)
+			.map(foldLine)
+			.join('\r\n') + '\r\n'
+	)
+}
+
+export function createCalendarFeedToken() {
+	return crypto.randomBytes(24).toString('hex')
+}
+
+export function calendarResponse(calendar: string, filename: string) {
+	return new Response(calendar, {
+		headers: {
+			'Content-Type': 'text/calendar; charset=utf-8',
+			'Content-Disposition': `inline; filename="${filename}"`,
+			'Cache-Control': 'no-store',
+		},
+	})
+}
+
+function getNextDay(date: string) {
+	const next = new Date(date)
+	next.setUTCDate(next.getUTCDate() + 1)
+	return next.toISOString().slice(0, 10)
+}
+
+function formatDateTime(date: Date) {
+	// 2026-10-19T19:30:00.000Z -> 20261019T193000Z
+	return date
+		.toISOString()
+		.replace(/[-:]/g, '')
+		.replace(/\.\d{3}/, '')
+}
+
+function formatDateProperty(name: string, value: Date | string) {
+	return typeof value === 'string'
+		? `${name};VALUE=DATE:${value.replace(/-/g, '')}`
+		: `${name}:${formatDateTime(value)}`
+}
+
+function escapeText(text: string) {
+	return text
+		.replace(/\\/g, '\\\\')
+		.replace(/;/g, '\\;')
+		.replace(/,/g, '\\,')
+		.replace(/\r?\n/g, '\\n')
+}
+
+function foldLine(line: string) {
+	const chunks: Array<string> = []
+	let chunk = ''
+	for (const char of line) {
+		const maxLength = chunks.length ? MAX_LINE_LENGTH - 1 : MAX_LINE_LENGTH
+		if (Buffer.byteLength(chunk + char) > maxLength) {
+			chunks.push(chunk)
+			chunk = ''
+		}
+		chunk += char
+	}
+	chunks.push(chunk)
+	// continuation lines start with a space
+	return chunks.join('\r\n ')
+}
@@ -0,0 +1,113 @@
+import { type User } from '@prisma/client'
+import { prisma } from './db.server.ts'
+import { emitDinnerGroupMessage } from './dinner-group-updates.server.ts'
+import { getTodayInTimeZone } from './events.ts'
+
+/**
+ * Posts a message to a dinner group's chat. Only attendees can take part in
+ * the conversation.
+ */
+export async function sendDinnerGroupMessage(
+	userId: User['id'],
+	dinnerGroupId: string,
+	content: string,
+) {
+	const attendee = await prisma.attendee.findUnique({
+		where: { userId_dinnerGroupId: { userId, dinnerGroupId } },
+		select: { id: true },
+	})
+	if (!attendee) {
+		return {
+			status: 'error',
+			error: 'Only people going to this dinner can send messages',
+		} as const
+	}
+
+	const message = await prisma.dinnerGroupMessage.create({
+		data: { userId, dinnerGroupId, content },
+		select: { createdAt: true },
+	})
+	// you've obviously read everything up to your own message
+	await prisma.attendee.update({
+		where: { id: attendee.id },
+		data: { messagesReadAt: message.createdAt },
+	})
+	void emitDinnerGroupMessage(dinnerGroupId)
+
+	return { status: 'success' } as const
+}
+
+export async function markDinnerGroupMessagesRead(
+	userId: User['id'],
+	dinnerGroupId: string,
+) {
+	await prisma.attendee.updateMany({
+		where: { userId, dinnerGroupId },
+		data: { messagesReadAt: new Date() },
+	})
+}
+
+/**
+ * Counts the messages other attendees sent to the user's upcoming dinner
+ * groups since the user last read each chat (or joined the group, if they
+ * never have). This runs on every request, so all the counts come from a
+ * single grouped query.
+ */
+export async function getUnreadDinnerGroupMessages(
+	userId: User['id'],
+	now = new Date(),
+) {
+	// no time zone is more than a day behind UTC, so older nights are over
+	const yesterday = new Date(now.getTime() - 1000 * 60 * 60 * 24)
+	const attendees = await prisma.attendee.findMany({
+		where: {
+			userId,
+			dinnerGroup: { date: { gte: yesterday.toISOString().slice(0, 10) } },
+		},
+		select: {
+			createdAt: true,
+			messagesReadAt: true,
+			dinnerGroup: {
+				select: {
+					id: true,
+					date: true,
+					event: { select: { timezone: true } },
+					restaurant: { select: { name: true } },
+				},
+			},
+		},
+	})
+	const upcoming = attendees.filter(
+		({ dinnerGroup }) =>
+			dinnerGroup.date >= getTodayInTimeZone(dinnerGroup.event.timezone, now),
+	)
+	if (!upcoming.length) return []
+
+	const counts = await prisma.dinnerGroupMessage.groupBy({
+		by: ['dinnerGroupId'],
+		where: {
+			userId: { not: userId },
+			OR: upcoming.map(({ createdAt, messagesReadAt, dinnerGroup }) => ({
+				dinnerGroupId: dinnerGroup.id,
+				createdAt: { gt: messagesReadAt ?? createdAt },
+			})),
+		},
+		_count: { _all: true },
+	})
+
+	return upcoming.flatMap(({ dinnerGroup }) => {
+		const count =
+			counts.find(({ dinnerGroupId }) => dinnerGroupId === dinnerGroup.id)
+				?._count._all ?? 0
+		return count > 0
+			? [
+					{
+						dinnerGroupId: dinnerGroup.id,
+						restaurantName: dinnerGroup.restaurant.name,
+						date: dinnerGroup.date,
+						count,
+					},
+				]
+			: []
+	})
+}
@@ -0,0 +1 @@
+export const DINNER_GROUP_MESSAGE_MAX_LENGTH = 1000
@@ -0,0 +1,213 @@
+import * as E from '@react-email/components'
+import { sendEmail } from './email.server.ts'
+import { formatNight, formatTime } from './events.ts'
+
+type DinnerGroupEmailDetails = {
+	eventName: string
+	restaurantName: string
+	date: string
+	reservationTime: string | null
+}
+
+function describeDinner({
+	restaurantName,
+	date,
+	reservationTime,
+}: DinnerGroupEmailDetails) {
+	const time = reservationTime ? ` at ${formatTime(reservationTime)}` : ''
+	return `${restaurantName} on ${formatNight(date)}${time}`
+}
+
+export async function sendWaitlistPromotionEmail({
+	to,
+	...details
+}: DinnerGroupEmailDetails & { to: string }) {
+	return sendEmail({
+		to,
+		subject: `You're in for dinner at ${details.restaurantName}`,
+		react: <WaitlistPromotionEmail {...details} />,
+	})
+}
+
+function WaitlistPromotionEmail(details: DinnerGroupEmailDetails) {
+	return (
+		<E.Html lang="en" dir="ltr">
+			<E.Container>
+				<h1>
+					<E.Text>A seat opened up!</E.Text>
+				</h1>
+				<p>
+					<E.Text>
+						You've been moved off the waitlist and into the {details.eventName}{' '}
+						dinner group at {describeDinner(details)}.
+					</E.Text>
+				</p>
+				<p>
+					<E.Text>
+						Can't make it anymore? Leave the group so the next person on the
+						waitlist gets your seat.
+					</E.Text>
+				</p>
+			</E.Container>
+		</E.Html>
+	)
+}
+
+export async function sendDinnerGroupJoinedEmail({
+	to,
+	joinedName,
+	...details
+}: DinnerGroupEmailDetails & { to: string; joinedName: string }) {
+	return sendEmail({
+		to,
+		subject: `${joinedName} is joining you at ${details.restaurantName}`,
+		react: <DinnerGroupJoinedEmail joinedName={joinedName} {...details} />,
+	})
+}
+
+function DinnerGroupJoinedEmail({
+	joinedName,
+	...details
+}: DinnerGroupEmailDetails & { joinedName: string }) {
+	return (
+		<E.Html lang="en" dir="ltr">
+			<E.Container>
+				<h1>
+					<E.Text>Your dinner group is growing</E.Text>
+				</h1>
+				<p>
+					<E.Text>
+						{joinedName} joined your {details.eventName} dinner group at{' '}
+						{describeDinner(details)}.
+					</E.Text>
+				</p>
+				<NotificationSettingsFooter />
+			</E.Container>
+		</E.Html>
+	)
+}
+
+export async function sendDinnerGroupUpdatedEmail({
+	to,
+	changes,
+	...details
+}: DinnerGroupEmailDetails & { to: string; changes: Array<string> }) {
+	return sendEmail({
+		to,
+		subject: `Your dinner at ${details.restaurantName} changed`,
+		react: <DinnerGroupUpdatedEmail changes={changes} {...details} />,
+	})
+}
+
+function DinnerGroupUpdatedEmail({
+	changes,
+	...details
+}: DinnerGroupEmailDetails & { changes: Array<string> }) {
+	return (
+		<E.Html lang="en" dir="ltr">
+			<E.Container>
+				<h1>
+					<E.Text>Your dinner plans changed</E.Text>
+				</h1>
+				<p>
+					<E.Text>
+						The organizer of your {details.eventName} dinner group updated the
+						plans. You're now going to {describeDinner(details)}.
+					</E.Text>
+				</p>
+				{changes.map((change) => (
+					<p key={change}>
+						<E.Text>{change}</E.Text>
+					</p>
+				))}
+				<NotificationSettingsFooter />
+			</E.Container>
+		</E.Html>
+	)
+}
+
+export async function sendDinnerGroupDissolvedEmail({
+	to,
+	...details
+}: DinnerGroupEmailDetails & { to: string }) {
+	return sendEmail({
+		to,
+		subject: `Your dinner group at ${details.restaurantName} was dissolved`,
+		react: <DinnerGroupDissolvedEmail {...details} />,
+	})
+}
+
+function DinnerGroupDissolvedEmail(details: DinnerGroupEmailDetails) {
+	return (
+		<E.Html lang="en" dir="ltr">
+			<E.Container>
+				<h1>
+					<E.Text>Your dinner group was dissolved</E.Text>
+				</h1>
+				<p>
+					<E.Text>
+						Everyone left the {details.eventName} dinner group at{' '}
+						{describeDinner(details)} you were waiting for a seat in, so the
+						group is gone and so is your spot on its waitlist. There's still
+						time to join another one!
+					</E.Text>
+				</p>
+				<NotificationSettingsFooter />
+			</E.Container>
+		</E.Html>
+	)
+}
+
+type DigestDinnerGroup = DinnerGroupEmailDetails & {
+	attendeeCount: number
+	capacity: number | null
+}
+
+export async function sendDinnerDigestEmail({
+	to,
+	dinnerGroups,
+}: {
+	to: string
+	dinnerGroups: Array<DigestDinnerGroup>
+}) {
+	return sendEmail({
+		to,
+		subject: `${dinnerGroups.length} dinner groups are forming tonight`,
+		react: <DinnerDigestEmail dinnerGroups={dinnerGroups} />,
+	})
+}
+
+function DinnerDigestEmail({
+	dinnerGroups,
+}: {
+	dinnerGroups: Array<DigestDinnerGroup>
+}) {
+	return (
+		<E.Html lang="en" dir="ltr">
+			<E.Container>
+				<h1>
+					<E.Text>Dinner groups forming tonight</E.Text>
+				</h1>
+				{dinnerGroups.map((group) => (
+					<p key={`${group.eventName}-${group.restaurantName}`}>
+						<E.Text>
+							{group.eventName}: {describeDinner(group)} ·{' '}
+							{group.capacity
+								? `${group.attendeeCount}/${group.capacity} seats taken`
+								: `${group.attendeeCount} going`}
+						</E.Text>
+					</p>
+				))}
+				<NotificationSettingsFooter />
+			</E.Container>
+		</E.Html>
+	)
+}
+
+function NotificationSettingsFooter() {
+	return (
+		<p>
+			<E.Text>You can turn these emails off in your profile settings.</E.Text>
+		</p>
+	)
+}
@@ -0,0 +1,398 @@
+import { type User } from '@prisma/client'
+import { prisma } from './db.server.ts'
+import {
+	sendDinnerDigestEmail,
+	sendDinnerGroupDissolvedEmail,
+	sendDinnerGroupJoinedEmail,
+	sendDinnerGroupUpdatedEmail,
+} from './dinner-group-emails.server.tsx'
+import {
+	formatNight,
+	formatTime,
+	getEventNights,
+	getTodayInTimeZone,
+	getZonedDateTime,
+} from './events.ts'
+import { sendPushToUsers } from './push-notifications.server.ts'
+
+// The digest goes out once it's this hour (24h) or later where the event is
+const DINNER_DIGEST_HOUR = 15
+// How long before the reservation time attendees get a reminder
+const DINNER_REMINDER_MS = 1000 * 60 * 30 // 30 minutes
+
+const dinnerGroupEmailSelect = {
+	date: true,
+	reservationTime: true,
+	event: { select: { name: true } },
+	restaurant: { select: { name: true } },
+} as const
+
+function getEmailDetails(dinnerGroup: {
+	date: string
+	reservationTime: string | null
+	event: { name: string }
+	restaurant: { name: string }
+}) {
+	return {
+		eventName: dinnerGroup.event.name,
+		restaurantName: dinnerGroup.restaurant.name,
+		date: dinnerGroup.date,
+		reservationTime: dinnerGroup.reservationTime,
+	}
+}
+
+/**
+ * Lets the rest of the group know someone joined, with a push notification
+ * and, if they asked for it, an email.
+ */
+export async function notifyDinnerGroupJoined(
+	dinnerGroupId: string,
+	joinedUserId: User['id'],
+) {
+	try {
+		const dinnerGroup = await prisma.dinnerGroup.findUnique({
+			where: { id: dinnerGroupId },
+			select: {
+				...dinnerGroupEmailSelect,
+				attendees: {
+					select: {
+						user: {
+							select: {
+								id: true,
+								email: true,
+								name: true,
+								username: true,
+								hideNameInDinners: true,
+								emailOnDinnerGroupJoin: true,
+							},
+						},
+					},
+				},
+			},
+		})
+		const joined = dinnerGroup?.attendees.find(
+			({ user }) => user.id === joinedUserId,
+		)?.user
+		if (!dinnerGroup || !joined) return
+
+		const joinedName = joined.hideNameInDinners
+			? 'Someone'
+			: (joined.name ?? joined.username)
+		const others = dinnerGroup.attendees
+			.map(({ user }) => user)
+			.filter((user) => user.id !== joinedUserId)
+		await Promise.all([
+			...others
+				.filter((user) => user.emailOnDinnerGroupJoin)
+				.map((user) =>
+					sendDinnerGroupJoinedEmail({
+						to: user.email,
+						joinedName,
+						...getEmailDetails(dinnerGroup),
+					}),
+				),
+			sendPushToUsers(
+				others.map((user) => user.id),
+				{
+					title: `${joinedName} is joining you`,
+					body: describeDinnerForPush(dinnerGroup),
+					url: `/dinners/${dinnerGroupId}`,
+				},
+			),
+		])
+	} catch (error) {
+		console.error(
+			`Error sending joined notifications for ${dinnerGroupId}:`,
+			error,
+		)
+	}
+}
+
+/**
+ * Emails the attendees who asked for it when the organizer changes the time or
+ * the notes of their dinner. A new time is also pushed to everyone's devices.
+ */
+export async function notifyDinnerGroupUpdated(
+	dinnerGroupId: string,
+	updatedByUserId: User['id'],
+	previous: { reservationTime: string | null; notes: string | null },
+) {
+	try {
+		const dinnerGroup = await prisma.dinnerGroup.findUnique({
+			where: { id: dinnerGroupId },
+			select: {
+				...dinnerGroupEmailSelect,
+				notes: true,
+				attendees: {
+					where: { userId: { not: updatedByUserId } },
+					select: {
+						user: {
+							select: { id: true, email: true, emailOnDinnerGroupUpdate: true },
+						},
+					},
+				},
+			},
+		})
+		if (!dinnerGroup) return
+
+		const changes: Array<string> = []
+		if (dinnerGroup.reservationTime !== previous.reservationTime) {
+			changes.push(
+				dinnerGroup.reservationTime
+					? `The reservation is now at ${formatTime(dinnerGroup.reservationTime)}.`
+					: 'There is no reservation time anymore.',
+			)
+		}
+		if (dinnerGroup.notes !== previous.notes) {
+			changes.push(
+				dinnerGroup.notes
+					? `New notes from the organizer: ${dinnerGroup.notes}`
+					: 'The organizer removed the notes.',
+			)
+		}
+		if (!changes.length) return
+
+		const attendees = dinnerGroup.attendees.map(({ user }) => user)
+		await Promise.all([
+			...attendees
+				.filter((user) => user.emailOnDinnerGroupUpdate)
+				.map((user) =>
+					sendDinnerGroupUpdatedEmail({
+						to: user.email,
+						changes,
+						...getEmailDetails(dinnerGroup),
+					}),
+				),
+			dinnerGroup.reservationTime !== previous.reservationTime
+				? sendPushToUsers(
+						attendees.map((user) => user.id),
+						{
+							title: 'Your dinner time changed',
+							body: describeDinnerForPush(dinnerGroup),
+							url: `/dinners/${dinnerGroupId}`,
+						},
+					)
+				: null,
+		])
+	} catch (error) {
+		console.error(
+			`Error sending updated notifications for ${dinnerGroupId}:`,
+			error,
+		)
+	}
+}
+
+/**
+ * Lets the people who were waiting for a seat in a dinner group know it was
+ * dissolved when everyone left, if they asked for it. Their waitlist spots go
+ * with the group, which is already gone by then, so its details are passed in.
+ */
+export async function notifyDinnerGroupDissolved(
+	waitlistUserIds: Array<User['id']>,
+	dinnerGroup: Parameters<typeof getEmailDetails>[0],
+) {
+	if (!waitlistUserIds.length) return
+	try {
+		const users = await prisma.user.findMany({
+			where: { id: { in: waitlistUserIds }, emailOnDinnerGroupDissolved: true },
+			select: { email: true },
+		})
+		await Promise.all(
+			users.map((user) =>
+				sendDinnerGroupDissolvedEmail({
+					to: user.email,
+					...getEmailDetails(dinnerGroup),
+				}),
+			),
+		)
+	} catch (error) {
+		console.error(`Error sending dissolved emails:`, error)
+	}
+}
+
+function describeDinnerForPush(
+	dinnerGroup: Parameters<typeof getEmailDetails>[0],
+) {
+	const time = dinnerGroup.reservationTime
+		? ` at ${formatTime(dinnerGroup.reservationTime)}`
+		: ''
+	return `${dinnerGroup.restaurant.name}, ${formatNight(dinnerGroup.date)}${time}`
+}
+
+/**
+ * Pushes a reminder to everyone in dinner groups whose reservation is coming
+ * up in the next half hour. Each group is only reminded once.
+ */
+export async function sendDinnerReminders(now = new Date()) {
+	// reservation nights are in the event's time zone, which can be a day off
+	// from UTC either way
+	const nights = [-1, 0, 1].map((days) =>
+		new Date(now.getTime() + days * 1000 * 60 * 60 * 24)
+			.toISOString()
+			.slice(0, 10),
+	)
+	const dinnerGroups = await prisma.dinnerGroup.findMany({
+		where: {
+			date: { in: nights },
+			reservationTime: { not: null },
+			reminderSentAt: null,
+		},
+		select: {
+			id: true,
+			...dinnerGroupEmailSelect,
+			event: { select: { name: true, timezone: true } },
+			attendees: { select: { userId: true } },
+		},
+	})
+
+	for (const dinnerGroup of dinnerGroups) {
+		if (!dinnerGroup.reservationTime) continue
+		const startsAt = getZonedDateTime(
+			dinnerGroup.date,
+			dinnerGroup.reservationTime,
+			dinnerGroup.event.timezone,
+		)
+		const timeUntilDinner = startsAt.getTime() - now.getTime()
+		if (timeUntilDinner <= 0 || timeUntilDinner > DINNER_REMINDER_MS) continue
+
+		try {
+			await prisma.dinnerGroup.update({
+				where: { id: dinnerGroup.id },
+				data: { reminderSentAt: now },
+			})
+			await sendPushToUsers(
+				dinnerGroup.attendees.map(({ userId }) => userId),
+				{
+					title: `Dinner in ${Math.round(timeUntilDinner / 1000 / 60)} minutes`,
+					body: describeDinnerForPush(dinnerGroup),
+					url: `/dinners/${dinnerGroup.id}`,
+				},
+			)
+		} catch (error) {
+			console.error(`Error sending reminder for ${dinnerGroup.id}:`, error)
+		}
+	}
+}
+
+function getHourInTimeZone(date: Date, timeZone: string) {
+	return Number(
+		new Intl.DateTimeFormat('en-US', {
+			timeZone,
+			hour: 'numeric',
+			hourCycle: 'h23',
+		}).format(date),
+	)
+}
+
+/**
+ * Sends everyone who wants it a digest of the dinner groups forming tonight
+ * at the events they've had dinner plans for, once it's afternoon where the
+ * event is. Each person gets at most one digest a day.
+ */
+export async function sendDinnerDigests(now = new Date()) {
+	const events = await prisma.event.findMany({
+		// events that end before yesterday can't have a night today anywhere
+		where: { endDate: { gte: new Date(now.getTime() - 1000 * 60 * 60 * 48) } },
+		select: {
+			id: true,
+			startDate: true,
+			endDate: true,
+			timezone: true,
+		},
+	})
+	const tonightByEvent = new Map<string, string>()
+	for (const event of events) {
+		const today = getTodayInTimeZone(event.timezone, now)
+		if (
+			getEventNights(event).includes(today) &&
+			getHourInTimeZone(now, event.timezone) >= DINNER_DIGEST_HOUR
+		) {
+			tonightByEvent.set(event.id, today)
+		}
+	}
+	if (!tonightByEvent.size) return
+
+	// only groups with seats left are still forming
+	const dinnerGroups = (
+		await prisma.dinnerGroup.findMany({
+			where: {
+				OR: [...tonightByEvent].map(([eventId, date]) => ({ eventId, date })),
+			},
+			orderBy: { reservationTime: 'asc' },
+			select: {
+				...dinnerGroupEmailSelect,
+				eventId: true,
+				capacity: true,
+				_count: { select: { attendees: true } },
+			},
+		})
+	).filter(
+		(group) => !group.capacity || group._count.attendees < group.capacity,
+	)
+	if (!dinnerGroups.length) return
+
+	const eventIds = [...new Set(dinnerGroups.map((group) => group.eventId))]
+	const recipients = await prisma.user.findMany({
+		where: {
+			emailDinnerDigest: true,
+			OR: [
+				{ attendees: { some: { dinnerGroup: { eventId: { in: eventIds } } } } },
+				{
+					waitlistEntries: {
+						some: { dinnerGroup: { eventId: { in: eventIds } } },
+					},
+				},
+			],
+		},
+		select: {
+			id: true,
+			email: true,
+			dinnerDigestSentOn: true,
+			attendees: { select: { dinnerGroup: { select: { eventId: true } } } },
+			waitlistEntries: {
+				select: { dinnerGroup: { select: { eventId: true } } },
+			},
+		},
+	})
+
+	for (const recipient of recipients) {
+		const recipientEventIds = new Set(
+			[...recipient.attendees, ...recipient.waitlistEntries].map(
+				({ dinnerGroup }) => dinnerGroup.eventId,
+			),
+		)
+		// every event has its own today, so only nights the recipient hasn't had
+		// a digest for yet are included
+		const recipientGroups = dinnerGroups.filter((group) => {
+			const tonight = tonightByEvent.get(group.eventId)
+			return (
+				recipientEventIds.has(group.eventId) &&
+				tonight &&
+				(!recipient.dinnerDigestSentOn ||
+					tonight > recipient.dinnerDigestSentOn)
+			)
+		})
+		const today = recipientGroups
+			.map((group) => tonightByEvent.get(group.eventId) ?? '')
+			.sort()
+			.at(-1)
+		if (!today) continue
+
+		try {
+			await sendDinnerDigestEmail({
+				to: recipient.email,
+				dinnerGroups: recipientGroups.map((group) => ({
+					...getEmailDetails(group),
+					attendeeCount: group._count.attendees,
+					capacity: group.capacity,
+				})),
+			})
+			await prisma.user.update({
+				where: { id: recipient.id },
+				data: { dinnerDigestSentOn: today },
+			})
+		} catch (error) {
+			console.error(`Error sending dinner digest to ${recipient.id}:`, error)
+		}
+	}
+}
@@ -0,0 +1,23 @@
+import { expect, test, vi } from 'vitest'
+import {
+	emitDinnerGroupUpdate,
+	subscribeToDinnerGroupUpdates,
+} from './dinner-group-updates.server.ts'
+
+test('subscribers only hear about updates to their own event', async () => {
+	const listener = vi.fn()
+	const unsubscribe = subscribeToDinnerGroupUpdates('event-1', listener)
+
+	await emitDinnerGroupUpdate({ eventId: 'event-1', date: '2026-10-19' })
+	await emitDinnerGroupUpdate({ eventId: 'event-2', date: '2026-10-19' })
+
+	expect(listener).toHaveBeenCalledTimes(1)
+	expect(listener).toHaveBeenCalledWith({
+		eventId: 'event-1',
+		date: '2026-10-19',
+	})
+
+	unsubscribe()
+	await emitDinnerGroupUpdate({ eventId: 'event-1', date: '2026-10-20' })
+	expect(listener).toHaveBeenCalledTimes(1)
+})
@@ -0,0 +1,128 @@
+import { EventEmitter } from 'node:events'
+import { remember } from '@epic-web/remember'
+import {
+	getAllInstances,
+	getInstanceInfo,
+	getInternalInstanceDomain,
+	getTxNumber,
+} from './litefs.server.ts'
+import { type DinnerNight } from './restaurants.server.ts'
+
+const DINNER_GROUP_UPDATE = 'dinner-group-update'
+const DINNER_GROUP_MESSAGE = 'dinner-group-message'
+// How long a replica waits for a change to be replicated before telling its
+// clients about it anyway
+const REPLICATION_TIMEOUT_MS = 2000
+const REPLICATION_INTERVAL_MS = 50
+
+export type ForwardedDinnerGroupChange =
+	| ({ type: 'update' } & DinnerNight)
+	| { type: 'message'; dinnerGroupId: string }
+
+const emitter = remember('dinner-group-updates', () => {
+	const emitter = new EventEmitter()
+	// every open restaurants page subscribes, so there's no sensible limit
+	emitter.setMaxListeners(0)
+	return emitter
+})
+
+export function subscribeToDinnerGroupUpdates(
+	eventId: DinnerNight['eventId'],
+	listener: (night: DinnerNight) => void,
+) {
+	function handleUpdate(night: DinnerNight) {
+		if (night.eventId === eventId) listener(night)
+	}
+	emitter.on(DINNER_GROUP_UPDATE, handleUpdate)
+	return () => {
+		emitter.off(DINNER_GROUP_UPDATE, handleUpdate)
+	}
+}
+
+export function subscribeToDinnerGroupMessages(
+	dinnerGroupId: string,
+	listener: () => void,
+) {
+	function handleMessage(messageDinnerGroupId: string) {
+		if (messageDinnerGroupId === dinnerGroupId) listener()
+	}
+	emitter.on(DINNER_GROUP_MESSAGE, handleMessage)
+	return () => {
+		emitter.off(DINNER_GROUP_MESSAGE, handleMessage)
+	}
+}
+
+/**
+ * Lets everyone looking at the night's dinner groups know they changed.
+ */
+export async function emitDinnerGroupUpdate(night: DinnerNight) {
+	emitChange({ type: 'update', ...night })
+	await forwardToReplicas({ type: 'update', ...night })
+}
+
+/**
+ * Lets the attendees reading a dinner group's chat know a message came in.
+ */
+export async function emitDinnerGroupMessage(dinnerGroupId: string) {
+	emitChange({ type: 'message', dinnerGroupId })
+	await forwardToReplicas({ type: 'message', dinnerGroupId })
+}
+
+/**
+ * Emits a change forwarded by the primary once this replica has caught up
+ * with it, so clients that reload right away see it.
+ */
+export async function receiveDinnerGroupChange({
+	txNumber,
+	...change
+}: ForwardedDinnerGroupChange & { txNumber: number }) {
+	const stopTime = Date.now() + REPLICATION_TIMEOUT_MS
+	while ((await getTxNumber()) < txNumber && Date.now() < stopTime) {
+		await new Promise((resolve) => setTimeout(resolve, REPLICATION_INTERVAL_MS))
+	}
+	emitChange(change)
+}
+
+function emitChange(change: ForwardedDinnerGroupChange) {
+	if (change.type === 'update') {
+		const { eventId, date } = change
+		emitter.emit(DINNER_GROUP_UPDATE, { eventId, date })
+	} else {
+		emitter.emit(DINNER_GROUP_MESSAGE, change.dinnerGroupId)
+	}
+}
+
+// Writes only happen on the LiteFS primary, so the primary also forwards
+// changes to every other instance for the clients connected to them
+async function forwardToReplicas(change: ForwardedDinnerGroupChange) {
+	const { currentInstance, currentIsPrimary } = await getInstanceInfo()
+	if (!currentIsPrimary) return
+
+	const instances = Object.keys(await getAllInstances()).filter(
+		(instance) => instance !== currentInstance,
+	)
+	if (!instances.length) return
+
+	const txNumber = await getTxNumber()
+	const token = process.env.INTERNAL_COMMAND_TOKEN
+	await Promise.all(
+		instances.map(async (instance) => {
+			const domain = getInternalInstanceDomain(instance)
+			try {
+				await fetch(`${domain}/resources/dinner-group-updates`, {
+					method: 'POST',
+					headers: {
+						Authorization: `Bearer ${token}`,
+						'Content-Type': 'application/json',
+					},
+					body: JSON.stringify({ ...change, txNumber }),
+				})
+			} catch (error) {
+				console.error(
+					`Error forwarding dinner group change to instance ${instance}:`,
+					error,
+				)
+			}
+		}),
+	)
+}
@@ -0,0 +1,93 @@
+import { expect, test } from 'vitest'
+import { createUser } from '#tests/db-utils.ts'
+import { prisma } from './db.server.ts'
+import {
+	archivePastDinnerGroups,
+	getEventDinnerHistory,
+	getUserDinnerHistory,
+} from './dinner-history.server.ts'
+
+async function setupDinnerGroups() {
+	const event = await prisma.event.create({
+		select: { id: true },
+		data: {
+			slug: 'history-conference',
+			name: 'History Conference',
+			venueName: 'Hilton Salt Lake City Center',
+			address: '255 S West Temple, Salt Lake City, UT 84101',
+			lat: 40.7596,
+			lng: -111.8867,
+			startDate: new Date('2026-10-18'),
+			endDate: new Date('2026-10-20'),
+			timezone: 'America/Denver',
+		},
+	})
+	const restaurant = await prisma.restaurant.create({
+		select: { id: true },
+		data: {
+			id: 'history-bistro',
+			name: 'History Bistro',
+			lat: 40.76,
+			lng: -111.89,
+		},
+	})
+	const [alice, bob] = await Promise.all(
+		[createUser(), createUser()].map((user) =>
+			prisma.user.create({ select: { id: true }, data: user }),
+		),
+	)
+	for (const date of ['2026-10-18', '2026-10-19']) {
+		await prisma.dinnerGroup.create({
+			data: {
+				eventId: event.id,
+				restaurantId: restaurant.id,
+				date,
+				reservationTime: '19:00',
+				attendees: {
+					create: [{ userId: alice!.id }, { userId: bob!.id }],
+				},
+			},
+		})
+	}
+	return { event, alice: alice!, bob: bob! }
+}
+
+test('archives dinner groups once their night is over', async () => {
+	const { event, alice } = await setupDinnerGroups()
+
+	// 9am in Salt Lake City on the 19th
+	const archived = await archivePastDinnerGroups(
+		new Date('2026-10-19T15:00:00Z'),
+	)
+
+	expect(archived).toBe(1)
+	const remaining = await prisma.dinnerGroup.findMany({
+		where: { eventId: event.id },
+		select: { date: true },
+	})
+	expect(remaining).toEqual([{ date: '2026-10-19' }])
+
+	const history = await getUserDinnerHistory(alice.id)
+	expect(history).toHaveLength(1)
+	expect(history[0]).toMatchObject({
+		date: '2026-10-18',
+		reservationTime: '19:00',
+		restaurant: { name: 'History Bistro' },
+	})
+	expect(history[0]!.attendees).toHaveLength(2)
+	expect(await getEventDinnerHistory(event.id)).toHaveLength(1)
+})
+
+test("doesn't archive tonight's dinners early in UTC", async () => {
+	await setupDinnerGroups()
+
+	// already the 20th in UTC, but still the evening of the 19th in Salt Lake
+	const archived = await archivePastDinnerGroups(
+		new Date('2026-10-20T02:00:00Z'),
+	)
+
+	expect(archived).toBe(1)
+	expect(await prisma.dinnerGroup.findMany({ select: { date: true } })).toEqual(
+		[{ date: '2026-10-19' }],
+	)
+})
@@ -0,0 +1,233 @@
+import { type Event, type User } from '@prisma/client'
+import { lruCache } from './cache.server.ts'
+import { prisma } from './db.server.ts'
+import { getTodayInTimeZone } from './events.ts'
+
+const dinnerHistorySelect = {
+	id: true,
+	date: true,
+	reservationTime: true,
+	event: { select: { id: true, slug: true, name: true } },
+	restaurant: { select: { id: true, name: true, address: true } },
+	attendees: {
+		orderBy: { joinedAt: 'asc' },
+		select: {
+			user: {
+				select: {
+					id: true,
+					name: true,
+					username: true,
+					hideNameInDinners: true,
+					image: { select: { objectKey: true } },
+				},
+			},
+		},
+	},
+} as const
+
+// How many past dinners to show on a profile
+const PROFILE_PAST_DINNER_LIMIT = 20
+
+export type DinnersVisibility = 'everyone' | 'signed-in' | 'nobody'
+
+/**
+ * Moves dinner groups whose night is over into the dinner history, keeping
+ * the restaurant, the night and who went. Their chat and waitlist go with
+ * them. Returns how many were archived.
+ */
+export async function archivePastDinnerGroups(now = new Date()) {
+	const events = await prisma.event.findMany({
+		where: { dinnerGroups: { some: {} } },
+		select: { id: true, timezone: true },
+	})
+
+	let count = 0
+	for (const event of events) {
+		const pastDinnerGroups = await prisma.dinnerGroup.findMany({
+			where: {
+				eventId: event.id,
+				date: { lt: getTodayInTimeZone(event.timezone, now) },
+			},
+			select: {
+				id: true,
+				restaurantId: true,
+				date: true,
+				reservationTime: true,
+				attendees: { select: { userId: true, createdAt: true } },
+			},
+		})
+		for (const dinnerGroup of pastDinnerGroups) {
+			await prisma.$transaction([
+				prisma.dinnerHistory.upsert({
+					where: { dinnerGroupId: dinnerGroup.id },
+					update: {},
+					create: {
+						dinnerGroupId: dinnerGroup.id,
+						eventId: event.id,
+						restaurantId: dinnerGroup.restaurantId,
+						date: dinnerGroup.date,
+						reservationTime: dinnerGroup.reservationTime,
+						attendees: {
+							create: dinnerGroup.attendees.map((attendee) => ({
+								userId: attendee.userId,
+								joinedAt: attendee.createdAt,
+							})),
+						},
+					},
+				}),
+				prisma.dinnerGroup.delete({ where: { id: dinnerGroup.id } }),
+			])
+			count++
+		}
+	}
+
+	// the restaurant list caches which restaurants have groups
+	if (count) lruCache.delete('all-restaurants')
+	return count
+}
+
+/**
+ * The dinners the user went to, most recent first.
+ */
+export async function getUserDinnerHistory(userId: User['id']) {
+	return prisma.dinnerHistory.findMany({
+		where: { attendees: { some: { userId } } },
+		orderBy: [{ date: 'desc' }, { reservationTime: 'desc' }],
+		select: dinnerHistorySelect,
+	})
+}
+
+/**
+ * Every dinner at the event, by night.
+ */
+export async function getEventDinnerHistory(eventId: Event['id']) {
+	return prisma.dinnerHistory.findMany({
+		where: { eventId },
+		orderBy: [{ date: 'asc' }, { reservationTime: 'asc' }],
+		select: dinnerHistorySelect,
+	})
+}
+
+/**
+ * How many times people on the team have had dinner at each restaurant, across
+ * every event.
+ */
+export async function getTeamVisitCounts() {
+	const dinners = await prisma.dinnerHistory.findMany({
+		select: { restaurantId: true, _count: { select: { attendees: true } } },
+	})
+	const visitCounts = new Map<string, number>()
+	for (const dinner of dinners) {
+		visitCounts.set(
+			dinner.restaurantId,
+			(visitCounts.get(dinner.restaurantId) ?? 0) + dinner._count.attendees,
+		)
+	}
+	return visitCounts
+}
+
+/**
+ * Whether the viewer (null when signed out) can see the user's dinners on
+ * their profile. People can always see their own.
+ */
+export function canSeeProfileDinners(
+	user: { id: User['id']; dinnersVisibility: string },
+	viewerId: User['id'] | null,
+) {
+	if (user.id === viewerId) return true
+	switch (user.dinnersVisibility as DinnersVisibility) {
+		case 'everyone':
+			return true
+		case 'signed-in':
+			return Boolean(viewerId)
+		default:
+			return false
+	}
+}
+
+/**
+ * The user's upcoming and past dinners with who they're having them with and
+ * what they thought of the restaurant, for their profile. Companions who hide
+ * their name in dinners stay anonymous to everyone but themselves.
+ */
+export async function getProfileDinners(
+	userId: User['id'],
+	viewerId: User['id'] | null,
+) {
+	const [dinnerGroups, history, reviews] = await Promise.all([
+		prisma.dinnerGroup.findMany({
+			where: { attendees: { some: { userId } } },
+			orderBy: [{ date: 'asc' }, { reservationTime: 'asc' }],
+			select: {
+				...dinnerHistorySelect,
+				event: { select: { id: true, slug: true, name: true, timezone: true } },
+				attendees: {
+					orderBy: { createdAt: 'asc' },
+					select: dinnerHistorySelect.attendees.select,
+				},
+			},
+		}),
+		prisma.dinnerHistory.findMany({
+			where: { attendees: { some: { userId } } },
+			orderBy: [{ date: 'desc' }, { reservationTime: 'desc' }],
+			take: PROFILE_PAST_DINNER_LIMIT,
+			select: dinnerHistorySelect,
+		}),
+		prisma.restaurantReview.findMany({
+			where: { userId },
+			select: { restaurantId: true, rating: true, content: true },
+		}),
+	])
+	const reviewsByRestaurant = new Map(
+		reviews.map(({ restaurantId, rating, content }) => [
+			restaurantId,
+			{ rating, content },
+		]),
+	)
+
+	function toProfileDinner(
+		dinner: (typeof history)[number],
+		dinnerGroupId: string | null,
+	) {
+		return {
+			id: dinner.id,
+			dinnerGroupId,
+			date: dinner.date,
+			reservationTime: dinner.reservationTime,
+			event: { slug: dinner.event.slug, name: dinner.event.name },
+			restaurant: dinner.restaurant,
+			review: reviewsByRestaurant.get(dinner.restaurant.id) ?? null,
+			companions: dinner.attendees
+				.filter(({ user }) => user.id !== userId)
+				.map(({ user }) =>
+					user.hideNameInDinners && user.id !== viewerId
+						? { isHidden: true as const }
+						: {
+								id: user.id,
+								isHidden: false as const,
+								name: user.name,
+								username: user.username,
+								imageObjectKey: user.image?.objectKey,
+							},
+				),
+		}
+	}
+
+	function isUpcoming(group: (typeof dinnerGroups)[number]) {
+		return group.date >= getTodayInTimeZone(group.event.timezone)
+	}
+
+	return {
+		upcoming: dinnerGroups
+			.filter(isUpcoming)
+			.map((group) => toProfileDinner(group, group.id)),
+		past: [
+			// groups stay around until the nightly archive, so some are over
+			...dinnerGroups
+				.filter((group) => !isUpcoming(group))
+				.reverse()
+				.map((group) => toProfileDinner(group, group.id)),
+			...history.map((dinner) => toProfileDinner(dinner, null)),
+		].slice(0, PROFILE_PAST_DINNER_LIMIT),
+	}
+}
@@ -12,8 +12,26 @@ const schema = z.object({
 	SENTRY_DSN: z.string().optional(),
 	// We're using Resend for email
 	RESEND_API_KEY: z.string(),
+	// Where restaurant data comes from. Defaults to Google Places when
+	// GOOGLE_PLACES_API_KEY is set and to the local fixture provider otherwise.
+	RESTAURANT_PROVIDER: z.enum(['google', 'fixture']).optional(),
 	// Google Places API key for restaurant data
-	GOOGLE_PLACES_API_KEY: z.string(),
+	GOOGLE_PLACES_API_KEY: z.string().optional(),
+	// Most places to read from a nearby search (Google caps this at 60)
+	GOOGLE_PLACES_MAX_RESULTS: z.string().optional(),
+	// JSON or GeoJSON file used by the fixture restaurant provider
+	RESTAURANT_FIXTURE_PATH: z.string().optional(),
+	// Web Push is turned off unless both VAPID keys are set
+	VAPID_PUBLIC_KEY: z.string().optional(),
+	VAPID_PRIVATE_KEY: z.string().optional(),
+	// Contact for push services, a mailto: or https: URL
+	VAPID_SUBJECT: z.string().optional(),
+	// Raster tiles for the restaurants map as a {z}/{x}/{y} URL template.
+	// Defaults to OpenStreetMap, point it at a local tile server for tests.
+	MAP_TILE_URL: z.string().url().optional(),
+	// Credit for the tiles shown on the map, linking to their terms if given
+	MAP_TILE_ATTRIBUTION: z.string().optional(),
+	MAP_TILE_ATTRIBUTION_URL: z.string().url().optional(),
 	// If you plan to use GitHub auth, remove the .optional()
 	GITHUB_CLIENT_ID: z.string().optional(),
 	GITHUB_CLIENT_SECRET: z.string().optional(),
@@ -47,6 +65,15 @@ export function init() {
 
 		throw new Error('Invalid environment variables')
 	}
+
+	if (
+		parsed.data.RESTAURANT_PROVIDER === 'google' &&
+		!parsed.data.GOOGLE_PLACES_API_KEY
+	) {
+		throw new Error(
+			'GOOGLE_PLACES_API_KEY is required when RESTAURANT_PROVIDER is "google"',
+		)
+	}
 }
 
 /**
@@ -63,6 +90,16 @@ export function getEnv() {
 		MODE: process.env.NODE_ENV,
 		SENTRY_DSN: process.env.SENTRY_DSN,
 		ALLOW_INDEXING: process.env.ALLOW_INDEXING,
+		VAPID_PUBLIC_KEY: process.env.VAPID_PUBLIC_KEY,
+		MAP_TILE_URL:
+			process.env.MAP_TILE_URL ??
+			'https://tile.openstreetmap.org/{z}/{x}/{y}.png',
+		// OpenStreetMap's tiles have to credit its contributors
+		MAP_TILE_ATTRIBUTION:
+			process.env.MAP_TILE_ATTRIBUTION ?? '© OpenStreetMap contributors',
+		MAP_TILE_ATTRIBUTION_URL: process.env.MAP_TILE_ATTRIBUTION
+			? process.env.MAP_TILE_ATTRIBUTION_URL
+			: 'https://www.openstreetmap.org/copyright',
 	}
 }
 
@@ -0,0 +1,45 @@
+import { invariantResponse } from '@epic-web/invariant'
+import { prisma } from './db.server.ts'
+
+export async function requireEvent(slug: string | undefined) {
+	const event = slug
+		? await prisma.event.findUnique({
+				where: { slug },
+				select: {
+					id: true,
+					slug: true,
+					name: true,
+					venueName: true,
+					address: true,
+					lat: true,
+					lng: true,
+					startDate: true,
+					endDate: true,
+					timezone: true,
+				},
+			})
+		: null
+	invariantResponse(event, 'Event not found', { status: 404 })
+	return event
+}
+
+/**
+ * Events that haven't finished yet, soonest first. An event counts as running
+ * through the whole of its end date.
+ */
+export async function getUpcomingEvents() {
+	const startOfToday = new Date()
+	startOfToday.setUTCHours(0, 0, 0, 0)
+	return prisma.event.findMany({
+		where: { endDate: { gte: startOfToday } },
+		orderBy: { startDate: 'asc' },
+		select: {
+			id: true,
+			slug: true,
+			name: true,
+			venueName: true,
+			startDate: true,
+			endDate: true,
+		},
+	})
+}
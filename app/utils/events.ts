@@ -0,0 +1,120 @@
+// Event start and end dates are calendar dates stored as midnight UTC, so they
+// must always be formatted in UTC to avoid shifting them by a day.
+const eventDateFormat = new Intl.DateTimeFormat('en-US', {
+	month: 'short',
+	day: 'numeric',
+	year: 'numeric',
+	timeZone: 'UTC',
+})
+
+export function formatEventDates({
+	startDate,
+	endDate,
+}: {
+	startDate: Date
+	endDate: Date
+}) {
+	return eventDateFormat.formatRange(startDate, endDate)
+}
+
+const nightFormat = new Intl.DateTimeFormat('en-US', {
+	weekday: 'short',
+	month: 'short',
+	day: 'numeric',
+	timeZone: 'UTC',
+})
+
+/**
+ * Every night of the event as yyyy-MM-dd strings, from the start date through
+ * the end date.
+ */
+export function getEventNights({
+	startDate,
+	endDate,
+}: {
+	startDate: Date
+	endDate: Date
+}) {
+	const nights: Array<string> = []
+	const current = new Date(startDate)
+	while (current <= endDate) {
+		nights.push(current.toISOString().slice(0, 10))
+		current.setUTCDate(current.getUTCDate() + 1)
+	}
+	return nights
+}
+
+/**
+ * Today's date (yyyy-MM-dd) as seen from the given IANA time zone.
+ */
+export function getTodayInTimeZone(timeZone: string, now = new Date()) {
+	// the en-CA locale formats dates as yyyy-MM-dd
+	return new Intl.DateTimeFormat('en-CA', { timeZone }).format(now)
+}
+
+/**
+ * The night to show when none was picked: tonight if the event is running,
+ * otherwise the closest night of the event.
+ */
+export function getDefaultNight(event: {
+	startDate: Date
+	endDate: Date
+	timezone: string
+}) {
+	const nights = getEventNights(event)
+	const today = getTodayInTimeZone(event.timezone)
+	return nights.find((night) => night >= today) ?? nights.at(-1) ?? today
+}
+
+export function formatNight(night: string) {
+	return nightFormat.format(new Date(night))
+}
+
+const timeFormat = new Intl.DateTimeFormat('en-US', {
+	hour: 'numeric',
+	minute: '2-digit',
+	timeZone: 'UTC',
+})
+
+/**
+ * Formats an HH:mm time of day for display, e.g. "19:30" as "7:30 PM".
+ */
+export function formatTime(time: string) {
+	const [hours = 0, minutes = 0] = time.split(':').map(Number)
+	return timeFormat.format(new Date(Date.UTC(1970, 0, 1, hours, minutes)))
+}
+
+/**
+ * The instant a wall clock in the given IANA time zone shows the HH:mm time
+ * on the yyyy-MM-dd night.
+ */
+export function getZonedDateTime(
+	night: string,
+	time: string,
+	timeZone: string,
+) {
+	const wallClock = new Date(`${night}T${time}:00Z`)
+	// see what the time zone's clock shows at that instant to find its offset
+	const parts = Object.fromEntries(
+		new Intl.DateTimeFormat('en-US', {
+			timeZone,
+			hourCycle: 'h23',
+			year: 'numeric',
+			month: 'numeric',
+			day: 'numeric',
+			hour: 'numeric',
+			minute: 'numeric',
+		})
+			.formatToParts(wallClock)
+			.map(({ type, value }) => [type, Number(value)]),
+	) as Record<Intl.DateTimeFormatPartTypes, number>
+	const zonedWallClock = Date.UTC(
+		parts.year,
+		parts.month - 1,
+		parts.day,
+		parts.hour,
+		parts.minute,
+	)
+	const offset = zonedWallClock - wallClock.getTime()
+	return new Date(wallClock.getTime() - offset)
+}
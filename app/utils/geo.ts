@@ -0,0 +1,72 @@
+// Conversion from miles to meters for Google Places API
+export const MILES_TO_METERS = 1609.34
+
+export function calculateDistance(
+	lat1: number,
+	lng1: number,
+	lat2: number,
+	lng2: number,
+): number {
+	// Haversine formula to calculate distance between two points on Earth
+	const R = 3958.8 // Earth's radius in miles
+	const dLat = toRad(lat2 - lat1)
+	const dLng = toRad(lng2 - lng1)
+	const a =
+		Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+		Math.cos(toRad(lat1)) *
+			Math.cos(toRad(lat2)) *
+			Math.sin(dLng / 2) *
+			Math.sin(dLng / 2)
+	const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a))
+	const distance = R * c
+	return parseFloat(distance.toFixed(1)) // Round to 1 decimal place
+}
+
+function toRad(degrees: number): number {
+	return degrees * (Math.PI / 180)
+}
+
+// Map tiles are squares of this many pixels in the Web Mercator projection
+export const TILE_SIZE = 256
+
+// Earth's radius in meters, as Web Mercator uses it
+const EARTH_RADIUS_METERS = 6378137
+
+/**
+ * Where a point falls on a Web Mercator map at the zoom level, in pixels from
+ * the top left corner of the world.
+ */
+export function projectToPixels(lat: number, lng: number, zoom: number) {
+	const worldSize = TILE_SIZE * 2 ** zoom
+	const sinLat = Math.sin(toRad(lat))
+	return {
+		x: ((lng + 180) / 360) * worldSize,
+		y:
+			(0.5 - Math.log((1 + sinLat) / (1 - sinLat)) / (4 * Math.PI)) *
+			worldSize,
+	}
+}
+
+/**
+ * How many meters a pixel covers at the latitude and zoom level.
+ */
+export function metersPerPixel(lat: number, zoom: number) {
+	return (
+		(Math.cos(toRad(lat)) * 2 * Math.PI * EARTH_RADIUS_METERS) /
+		(TILE_SIZE * 2 ** zoom)
+	)
+}
+
+/**
+ * Fills in a tile URL template like
+ * `https://tile.openstreetmap.org/{z}/{x}/{y}.png`.
+ */
+export function getTileUrl(
+	template: string,
+	{ x, y, z }: { x: number; y: number; z: number },
+) {
+	return template
+		.replace('{z}', String(z))
+		.replace('{x}', String(x))
+		.replace('{y}', String(y))
+}
@@ -0,0 +1,72 @@
+import { beforeEach, expect, test, vi } from 'vitest'
+import { consoleError } from '#tests/setup/setup-test-env.ts'
+import { prisma } from './db.server.ts'
+import {
+	enqueueJob,
+	getRetryDelay,
+	jobDefinitions,
+	runDueJobs,
+} from './jobs.server.ts'
+
+beforeEach(() => {
+	// keep the real jobs from touching anything while these run
+	for (const definition of Object.values(jobDefinitions)) {
+		vi.spyOn(definition, 'run').mockResolvedValue(undefined)
+	}
+})
+
+test('every job gets its next run queued', async () => {
+	await runDueJobs()
+
+	const jobs = await prisma.job.findMany({ where: { status: 'pending' } })
+	expect(jobs.map((job) => job.name).sort()).toEqual(
+		Object.keys(jobDefinitions).sort(),
+	)
+	for (const job of jobs) {
+		expect(job.runAt.getTime()).toBeGreaterThan(Date.now())
+	}
+})
+
+test('runs due jobs and queues the next run', async () => {
+	const job = await enqueueJob('send-dinner-digests')
+
+	await runDueJobs()
+
+	expect(jobDefinitions['send-dinner-digests'].run).toHaveBeenCalledTimes(1)
+	expect(
+		await prisma.job.findUniqueOrThrow({ where: { id: job.id } }),
+	).toMatchObject({ status: 'completed', attempts: 1, lastError: null })
+
+	// the next tick schedules the run after that
+	await runDueJobs()
+	expect(
+		await prisma.job.count({
+			where: { name: 'send-dinner-digests', status: 'pending' },
+		}),
+	).toBe(1)
+})
+
+test('retries failed jobs with a backoff until they give up', async () => {
+	consoleError.mockImplementation(() => {})
+	vi.spyOn(jobDefinitions['send-dinner-digests'], 'run').mockRejectedValue(
+		new Error('Email service is down'),
+	)
+	const { id } = await enqueueJob('send-dinner-digests')
+
+	await runDueJobs()
+	let job = await prisma.job.findUniqueOrThrow({ where: { id } })
+	expect(job).toMatchObject({ status: 'pending', attempts: 1 })
+	expect(job.lastError).toContain('Email service is down')
+	expect(job.runAt.getTime()).toBeGreaterThanOrEqual(
+		Date.now() + getRetryDelay(1) - 1000 * 5,
+	)
+
+	await runDueJobs(new Date(job.runAt))
+	job = await prisma.job.findUniqueOrThrow({ where: { id } })
+	expect(job).toMatchObject({ status: 'pending', attempts: 2 })
+
+	await runDueJobs(new Date(job.runAt))
+	job = await prisma.job.findUniqueOrThrow({ where: { id } })
+	expect(job).toMatchObject({ status: 'failed', attempts: 3 })
+	expect(jobDefinitions['send-dinner-digests'].run).toHaveBeenCalledTimes(3)
+})
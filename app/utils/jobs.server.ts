@@ -0,0 +1,234 @@
+import { remember } from '@epic-web/remember'
+import { type Job } from '@prisma/client'
+import { prisma } from './db.server.ts'
+import {
+	sendDinnerDigests,
+	sendDinnerReminders,
+} from './dinner-group-notifications.server.ts'
+import { archivePastDinnerGroups } from './dinner-history.server.ts'
+import { getInstanceInfo } from './litefs.server.ts'
+import { refreshEventRestaurants } from './restaurants.server.ts'
+
+const JOB_POLL_INTERVAL_MS = 1000 * 10 // 10 seconds
+// A running job that hasn't finished by now was cut off, like by a deploy
+const JOB_TIMEOUT_MS = 1000 * 60 * 10 // 10 minutes
+// The first retry waits this long, and each one after that twice as long
+const JOB_RETRY_DELAY_MS = 1000 * 60 // 1 minute
+// Finished jobs are kept around this long to show up in the admin
+const FINISHED_JOB_RETENTION_MS = 1000 * 60 * 60 * 24 * 7 // 7 days
+
+export type JobStatus = 'pending' | 'running' | 'completed' | 'failed'
+
+type JobDefinition = {
+	description: string
+	run: (now: Date) => Promise<unknown>
+	// when the next run should be once the last one is done
+	getNextRunAt: (now: Date) => Date
+	maxAttempts?: number
+}
+
+function every(ms: number) {
+	return (now: Date) => new Date(Math.floor(now.getTime() / ms) * ms + ms)
+}
+
+function dailyAt(utcHour: number) {
+	return (now: Date) => {
+		const next = new Date(now)
+		next.setUTCHours(utcHour, 0, 0, 0)
+		if (next <= now) next.setUTCDate(next.getUTCDate() + 1)
+		return next
+	}
+}
+
+export const jobDefinitions = {
+	'send-dinner-reminders': {
+		description: 'Pushes a reminder half an hour before each dinner',
+		run: sendDinnerReminders,
+		getNextRunAt: every(1000 * 60 * 5),
+	},
+	'send-dinner-digests': {
+		description: "Emails the afternoon digest of tonight's dinners",
+		run: sendDinnerDigests,
+		getNextRunAt: every(1000 * 60 * 15),
+	},
+	'clean-up-dinner-groups': {
+		description: 'Archives past dinner groups and deletes old finished jobs',
+		run: async (now) => {
+			await archivePastDinnerGroups(now)
+			await deleteFinishedJobs(now)
+		},
+		// the middle of the night across the Americas
+		getNextRunAt: dailyAt(9),
+	},
+	'refresh-restaurants': {
+		description: 'Fetches restaurants near upcoming events again',
+		run: refreshEventRestaurants,
+		getNextRunAt: every(1000 * 60 * 60 * 12),
+		maxAttempts: 5,
+	},
+} satisfies Record<string, JobDefinition>
+
+export type JobName = keyof typeof jobDefinitions
+
+function getJobDefinition(name: string): JobDefinition | undefined {
+	// job names come from the database, so don't pick up things like toString
+	if (!Object.hasOwn(jobDefinitions, name)) return undefined
+	return jobDefinitions[name as JobName]
+}
+
+export function getRetryDelay(attempts: number) {
+	return JOB_RETRY_DELAY_MS * 2 ** (attempts - 1)
+}
+
+/**
+ * Queues a run of the job. A run for the same time is only queued once, so
+ * it's safe to call more than once.
+ */
+export async function enqueueJob(name: JobName, runAt = new Date()) {
+	const { maxAttempts = 3 } = getJobDefinition(name) ?? {}
+	return prisma.job.upsert({
+		where: { key: `${name}:${runAt.toISOString()}` },
+		update: {},
+		create: {
+			name,
+			key: `${name}:${runAt.toISOString()}`,
+			runAt,
+			maxAttempts,
+		},
+	})
+}
+
+/**
+ * Makes sure every job has its next run queued, which is how recurring jobs
+ * keep going after each run.
+ */
+async function scheduleJobs(now: Date) {
+	for (const [name, definition] of Object.entries(jobDefinitions)) {
+		const queued = await prisma.job.findFirst({
+			where: { name, status: { in: ['pending', 'running'] } },
+			select: { id: true },
+		})
+		if (!queued) {
+			await enqueueJob(name as JobName, definition.getNextRunAt(now))
+		}
+	}
+}
+
+/**
+ * Puts jobs that were cut off while running back in the queue, counting it as
+ * a failed attempt.
+ */
+async function recoverTimedOutJobs(now: Date) {
+	const timedOut = await prisma.job.findMany({
+		where: {
+			status: 'running',
+			startedAt: { lt: new Date(now.getTime() - JOB_TIMEOUT_MS) },
+		},
+	})
+	for (const job of timedOut) {
+		await finishJob(job, new Error('Job timed out'))
+	}
+}
+
+async function finishJob(job: Job, error?: unknown) {
+	const finishedAt = new Date()
+	if (!error) {
+		await prisma.job.update({
+			where: { id: job.id },
+			data: { status: 'completed', finishedAt, lastError: null },
+		})
+	} else if (job.attempts < job.maxAttempts) {
+		await prisma.job.update({
+			where: { id: job.id },
+			data: {
+				status: 'pending',
+				runAt: new Date(finishedAt.getTime() + getRetryDelay(job.attempts)),
+				lastError: getErrorText(error),
+			},
+		})
+	} else {
+		await prisma.job.update({
+			where: { id: job.id },
+			data: { status: 'failed', finishedAt, lastError: getErrorText(error) },
+		})
+	}
+}
+
+function getErrorText(error: unknown) {
+	return error instanceof Error ? (error.stack ?? error.message) : String(error)
+}
+
+/**
+ * Claims the next job that's due. Returns null when there's nothing to do.
+ */
+async function claimNextJob(now: Date) {
+	const job = await prisma.job.findFirst({
+		where: { status: 'pending', runAt: { lte: now } },
+		orderBy: { runAt: 'asc' },
+	})
+	if (!job) return null
+
+	// only one claim can move the job out of pending
+	const { count } = await prisma.job.updateMany({
+		where: { id: job.id, status: 'pending' },
+		data: {
+			status: 'running',
+			startedAt: new Date(),
+			attempts: { increment: 1 },
+		},
+	})
+	return count ? { ...job, attempts: job.attempts + 1 } : null
+}
+
+/**
+ * Runs every job that's due, one at a time.
+ */
+export async function runDueJobs(now = new Date()) {
+	await recoverTimedOutJobs(now)
+	await scheduleJobs(now)
+
+	let job: Job | null
+	while ((job = await claimNextJob(now))) {
+		const definition = getJobDefinition(job.name)
+		try {
+			if (!definition) throw new Error(`Unknown job: ${job.name}`)
+			await definition.run(now)
+			await finishJob(job)
+		} catch (error) {
+			console.error(`Job ${job.name} (${job.id}) failed:`, error)
+			await finishJob(job, error)
+		}
+	}
+}
+
+async function deleteFinishedJobs(now: Date) {
+	await prisma.job.deleteMany({
+		where: {
+			status: { in: ['completed', 'failed'] },
+			finishedAt: { lt: new Date(now.getTime() - FINISHED_JOB_RETENTION_MS) },
+		},
+	})
+}
+
+/**
+ * Polls for due jobs. Only the LiteFS primary runs them since it's the only
+ * instance that can write to the database.
+ */
+export function startJobWorker() {
+	remember('job-worker', () => {
+		let isRunning = false
+		return setInterval(async () => {
+			// a slow job can outlast the poll interval
+			if (isRunning) return
+			isRunning = true
+			try {
+				const { currentIsPrimary } = await getInstanceInfo()
+				if (currentIsPrimary) await runDueJobs()
+			} catch (error) {
+				console.error('Error running jobs:', error)
+			} finally {
+				isRunning = false
+			}
+		}, JOB_POLL_INTERVAL_MS).unref()
+	})
+}
@@ -6,5 +6,6 @@ export {
 	getAllInstances,
 	getInternalInstanceDomain,
 	getInstanceInfoSync,
+	getTxNumber,
 } from 'litefs-js'
 export { ensurePrimary, ensureInstance } from 'litefs-js/remix.js'
@@ -0,0 +1,51 @@
+import { expect, test } from 'vitest'
+import {
+	formatOpeningHoursForDay,
+	getDayOfWeek,
+	isOpenAt,
+	type OpeningHours,
+} from './opening-hours.ts'
+
+// Closed Mondays, late nights on Saturday into Sunday morning
+const hours: OpeningHours = [
+	{ open: { day: 0, time: '17:00' }, close: { day: 0, time: '22:00' } },
+	{ open: { day: 2, time: '11:00' }, close: { day: 2, time: '14:00' } },
+	{ open: { day: 2, time: '17:00' }, close: { day: 2, time: '22:00' } },
+	{ open: { day: 6, time: '17:00' }, close: { day: 0, time: '01:00' } },
+]
+
+test('nights are mapped to their day of the week', () => {
+	expect(getDayOfWeek('2026-10-18')).toBe(0)
+	expect(getDayOfWeek('2026-10-19')).toBe(1)
+})
+
+test('restaurants are open between their opening and closing times', () => {
+	expect(isOpenAt(hours, 2, '12:00')).toBe(true)
+	expect(isOpenAt(hours, 2, '15:00')).toBe(false)
+	expect(isOpenAt(hours, 2, '19:00')).toBe(true)
+	expect(isOpenAt(hours, 2, '22:00')).toBe(false)
+	expect(isOpenAt(hours, 1, '19:00')).toBe(false)
+})
+
+test('hours past midnight wrap around the week', () => {
+	expect(isOpenAt(hours, 6, '23:30')).toBe(true)
+	expect(isOpenAt(hours, 0, '00:30')).toBe(true)
+	expect(isOpenAt(hours, 0, '02:00')).toBe(false)
+})
+
+test('restaurants without a closing time are always open', () => {
+	const allDay: OpeningHours = [
+		{ open: { day: 0, time: '00:00' }, close: null },
+	]
+
+	expect(isOpenAt(allDay, 3, '03:00')).toBe(true)
+	expect(formatOpeningHoursForDay(allDay, 3)).toBe('Open 24 hours')
+})
+
+test('hours are formatted for the day they open', () => {
+	expect(formatOpeningHoursForDay(hours, 2)).toBe(
+		'11:00 AM – 2:00 PM, 5:00 PM – 10:00 PM',
+	)
+	expect(formatOpeningHoursForDay(hours, 6)).toBe('5:00 PM – 1:00 AM')
+	expect(formatOpeningHoursForDay(hours, 1)).toBe('Closed')
+})
@@ -0,0 +1,93 @@
+import { z } from 'zod'
+import { formatTime } from './events.ts'
+
+// When we check whether a restaurant is open for dinner if the group hasn't
+// picked a time, HH:mm
+export const DEFAULT_DINNER_TIME = '19:00'
+
+export const WEEKDAYS = [
+	'Sunday',
+	'Monday',
+	'Tuesday',
+	'Wednesday',
+	'Thursday',
+	'Friday',
+	'Saturday',
+] as const
+
+const MINUTES_PER_DAY = 24 * 60
+const MINUTES_PER_WEEK = 7 * MINUTES_PER_DAY
+
+const DayTimeSchema = z.object({
+	// 0 is Sunday, like Google's opening hours
+	day: z.number().int().min(0).max(6),
+	time: z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/),
+})
+
+// Matches the periods of Google's opening_hours. A period without a close is
+// open around the clock.
+export const OpeningHoursSchema = z.array(
+	z.object({ open: DayTimeSchema, close: DayTimeSchema.nullable() }),
+)
+
+export type OpeningHours = z.infer<typeof OpeningHoursSchema>
+
+/**
+ * Opening hours are stored as JSON. Returns null when they're unknown.
+ */
+export function parseOpeningHours(value: string | null) {
+	if (!value) return null
+	try {
+		const result = OpeningHoursSchema.safeParse(JSON.parse(value))
+		return result.success ? result.data : null
+	} catch {
+		return null
+	}
+}
+
+function getMinutesIntoWeek({ day, time }: { day: number; time: string }) {
+	const [hours = 0, minutes = 0] = time.split(':').map(Number)
+	return day * MINUTES_PER_DAY + hours * 60 + minutes
+}
+
+/**
+ * The day of the week of a yyyy-MM-dd night, 0 being Sunday.
+ */
+export function getDayOfWeek(night: string) {
+	return new Date(`${night}T00:00:00Z`).getUTCDay()
+}
+
+/**
+ * Whether the restaurant is open at the HH:mm time on the day of the week,
+ * both in the restaurant's own time zone.
+ */
+export function isOpenAt(hours: OpeningHours, day: number, time: string) {
+	const at = getMinutesIntoWeek({ day, time })
+	return hours.some(({ open, close }) => {
+		if (!close) return true
+		const start = getMinutesIntoWeek(open)
+		let end = getMinutesIntoWeek(close)
+		// Saturday night into Sunday morning wraps around the week
+		if (end <= start) end += MINUTES_PER_WEEK
+		return (
+			(at >= start && at < end) ||
+			(at + MINUTES_PER_WEEK >= start && at + MINUTES_PER_WEEK < end)
+		)
+	})
+}
+
+/**
+ * Like "5:00 PM – 10:00 PM" or "Closed", for the hours that open on the day.
+ */
+export function formatOpeningHoursForDay(hours: OpeningHours, day: number) {
+	if (hours.some(({ close }) => !close)) return 'Open 24 hours'
+	const periods = hours
+		.filter(({ open }) => open.day === day)
+		.sort((a, b) => a.open.time.localeCompare(b.open.time))
+	if (!periods.length) return 'Closed'
+	return periods
+		.flatMap(({ open, close }) =>
+			close ? [`${formatTime(open.time)} – ${formatTime(close.time)}`] : [],
+		)
+		.join(', ')
+}
@@ -0,0 +1,140 @@
+import fs from 'node:fs/promises'
+import path from 'node:path'
+import { lookup as getMimeType } from 'mime-types'
+import { z } from 'zod'
+import { calculateDistance, MILES_TO_METERS } from '../geo.ts'
+import { OpeningHoursSchema } from '../opening-hours.ts'
+import { isDietaryOption } from '../restaurant-tags.ts'
+import { getTagsFromPlaceTypes } from './place-types.ts'
+import { type ProviderRestaurant, type RestaurantProvider } from './provider.ts'
+
+const DEFAULT_FIXTURE_PATH =
+	'./tests/fixtures/restaurants/salt-lake-city.geojson'
+
+const FixtureRestaurantPropertiesSchema = z.object({
+	id: z.string(),
+	name: z.string(),
+	priceLevel: z.number().int().min(0).max(4).optional(),
+	rating: z.number().min(0).max(5).optional(),
+	address: z.string().optional(),
+	// path to an image, relative to the fixture file
+	photo: z.string().optional(),
+	mapsUrl: z.string().url().optional(),
+	// Google place types, like sushi_restaurant
+	types: z.array(z.string()).optional(),
+	// dietary options place types can't tell us about, like gluten-free
+	dietaryOptions: z.array(z.string().refine(isDietaryOption)).optional(),
+	openingHours: OpeningHoursSchema.optional(),
+})
+
+const GeoJsonFixtureSchema = z.object({
+	type: z.literal('FeatureCollection'),
+	features: z.array(
+		z.object({
+			type: z.literal('Feature'),
+			geometry: z.object({
+				type: z.literal('Point'),
+				// GeoJSON positions are [longitude, latitude]
+				coordinates: z.tuple([z.number(), z.number()]),
+			}),
+			properties: FixtureRestaurantPropertiesSchema,
+		}),
+	),
+})
+
+const JsonFixtureSchema = z.array(
+	FixtureRestaurantPropertiesSchema.extend({
+		lat: z.number(),
+		lng: z.number(),
+	}),
+)
+
+function getFixturePath() {
+	return path.resolve(
+		process.env.RESTAURANT_FIXTURE_PATH ?? DEFAULT_FIXTURE_PATH,
+	)
+}
+
+async function readFixtureRestaurants(): Promise<Array<ProviderRestaurant>> {
+	const raw = JSON.parse(await fs.readFile(getFixturePath(), 'utf-8'))
+	const restaurants = GeoJsonFixtureSchema.safeParse(raw).success
+		? GeoJsonFixtureSchema.parse(raw).features.map(
+				({ geometry: { coordinates }, properties }) => ({
+					...properties,
+					lat: coordinates[1],
+					lng: coordinates[0],
+				}),
+			)
+		: JsonFixtureSchema.parse(raw)
+
+	return restaurants.map(
+		({ photo, types = [], dietaryOptions = [], ...restaurant }) => {
+			const tags = getTagsFromPlaceTypes(types)
+			return {
+				...restaurant,
+				...tags,
+				dietaryOptions: [
+					...new Set([...tags.dietaryOptions, ...dietaryOptions]),
+				],
+				photoRef: photo,
+				mapsUrl:
+					restaurant.mapsUrl ??
+					`https://www.google.com/maps/search/?api=1&query=${restaurant.lat},${restaurant.lng}`,
+			}
+		},
+	)
+}
+
+/**
+ * Serves restaurants from a local JSON or GeoJSON file so the app works
+ * without a Google Places API key (local development, CI and offline demos).
+ */
+export class FixtureRestaurantProvider implements RestaurantProvider {
+	async getNearbyRestaurants({
+		lat,
+		lng,
+		radius,
+	}: {
+		lat: number
+		lng: number
+		radius: number
+	}) {
+		const restaurants = await readFixtureRestaurants()
+		return restaurants.filter(
+			(restaurant) =>
+				calculateDistance(lat, lng, restaurant.lat, restaurant.lng) *
+					MILES_TO_METERS <=
+				radius,
+		)
+	}
+
+	async getRestaurantDetails(id: string) {
+		const restaurant = (await readFixtureRestaurants()).find(
+			(restaurant) => restaurant.id === id,
+		)
+		return {
+			photoRef: restaurant?.photoRef,
+			mapsUrl: restaurant?.mapsUrl,
+			openingHours: restaurant?.openingHours,
+		}
+	}
+
+	async getPhoto(photoRef: string) {
+		const fixtureDir = path.dirname(getFixturePath())
+		const photoPath = path.resolve(fixtureDir, photoRef)
+		// don't let a photo reference read files outside of the fixture directory
+		if (!photoPath.startsWith(fixtureDir + path.sep)) {
+			return new Response('Not found', { status: 404 })
+		}
+		try {
+			const file = await fs.readFile(photoPath)
+			return new Response(file, {
+				headers: {
+					'Content-Type': getMimeType(photoPath) || 'application/octet-stream',
+				},
+			})
+		} catch {
+			return new Response('Not found', { status: 404 })
+		}
+	}
+}
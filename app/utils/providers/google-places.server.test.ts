@@ -0,0 +1,192 @@
+import { http, HttpResponse } from 'msw'
+import { afterEach, beforeEach, expect, test, vi } from 'vitest'
+import { server } from '#tests/mocks/index.ts'
+import { GooglePlacesProvider } from './google-places.server.ts'
+
+const NEARBY_SEARCH_URL =
+	'https://maps.googleapis.com/maps/api/place/nearbysearch/json'
+const PLACE_DETAILS_URL =
+	'https://maps.googleapis.com/maps/api/place/details/json'
+// wide enough to include every restaurant in the Salt Lake City fixture
+const SEARCH = { lat: 40.7596, lng: -111.8867, radius: 16000 }
+
+beforeEach(() => {
+	vi.stubEnv('GOOGLE_PLACES_API_KEY', 'MOCK_GOOGLE_PLACES_API_KEY')
+	// the provider waits between page and retry requests like Google asks, and
+	// the mock only accepts page tokens once enough time has passed
+	vi.useFakeTimers({ toFake: ['setTimeout', 'Date'] })
+})
+
+afterEach(() => {
+	vi.useRealTimers()
+	vi.unstubAllEnvs()
+})
+
+/**
+ * Fast-forwards through the provider's waits until the request is done.
+ */
+async function skipWaits<T>(promise: Promise<T>) {
+	let isDone = false
+	const done = promise.finally(() => {
+		isDone = true
+	})
+	// rejections are handled by whoever awaits the result
+	done.catch(() => {})
+	while (!isDone) {
+		await vi.advanceTimersByTimeAsync(1000)
+	}
+	return done
+}
+
+function spyOnPageRequests() {
+	const fetchSpy = vi.spyOn(globalThis, 'fetch')
+	return () =>
+		fetchSpy.mock.calls.filter(([url]) => String(url).includes('pagetoken='))
+			.length
+}
+
+test('follows next_page_token past the first 20 results', async () => {
+	const getPageRequestCount = spyOnPageRequests()
+	const restaurants = await skipWaits(
+		new GooglePlacesProvider().getNearbyRestaurants(SEARCH),
+	)
+
+	expect(restaurants).toHaveLength(24)
+	expect(new Set(restaurants.map((r) => r.id)).size).toBe(24)
+	expect(getPageRequestCount()).toBe(1)
+})
+
+test('stops at GOOGLE_PLACES_MAX_RESULTS', async () => {
+	vi.stubEnv('GOOGLE_PLACES_MAX_RESULTS', '5')
+	const getPageRequestCount = spyOnPageRequests()
+	const restaurants = await skipWaits(
+		new GooglePlacesProvider().getNearbyRestaurants(SEARCH),
+	)
+
+	expect(restaurants).toHaveLength(5)
+	expect(getPageRequestCount()).toBe(0)
+})
+
+test('only returns a place once when it shows up on several pages', async () => {
+	const place = {
+		place_id: 'duplicate-place',
+		name: 'Duplicate Diner',
+		geometry: { location: { lat: SEARCH.lat, lng: SEARCH.lng } },
+		vicinity: '1 Main St',
+	}
+	server.use(
+		http.get(NEARBY_SEARCH_URL, ({ request }) => {
+			const pageToken = new URL(request.url).searchParams.get('pagetoken')
+			return HttpResponse.json({
+				results: [place],
+				next_page_token: pageToken ? undefined : 'second-page',
+				status: 'OK',
+			})
+		}),
+	)
+
+	const restaurants = await skipWaits(
+		new GooglePlacesProvider().getNearbyRestaurants(SEARCH),
+	)
+
+	expect(restaurants.map((r) => r.id)).toEqual(['duplicate-place'])
+})
+
+test('tags places with cuisines and dietary options from their types and names', async () => {
+	server.use(
+		http.get(NEARBY_SEARCH_URL, () =>
+			HttpResponse.json({
+				results: [
+					{
+						place_id: 'named-place',
+						name: 'Vegan Sushi Bar',
+						geometry: { location: { lat: SEARCH.lat, lng: SEARCH.lng } },
+						vicinity: '1 Main St',
+						types: [
+							'bar',
+							'restaurant',
+							'food',
+							'point_of_interest',
+							'establishment',
+						],
+					},
+				],
+				status: 'OK',
+			}),
+		),
+	)
+
+	const [restaurant] = await skipWaits(
+		new GooglePlacesProvider().getNearbyRestaurants(SEARCH),
+	)
+
+	expect(restaurant).toMatchObject({
+		cuisines: ['bar', 'sushi', 'japanese'],
+		dietaryOptions: ['vegetarian', 'vegan'],
+	})
+})
+
+test('retries place details that fail for transient reasons', async () => {
+	let attempts = 0
+	server.use(
+		http.get(PLACE_DETAILS_URL, () => {
+			attempts++
+			if (attempts === 1) return new HttpResponse(null, { status: 503 })
+			if (attempts === 2)
+				return HttpResponse.json({ status: 'OVER_QUERY_LIMIT' })
+			return HttpResponse.json({
+				result: { photos: [{ photo_reference: 'photo' }], url: 'maps-url' },
+				status: 'OK',
+			})
+		}),
+	)
+
+	const details = await skipWaits(
+		new GooglePlacesProvider().getRestaurantDetails('fixture-slc-01'),
+	)
+
+	expect(details).toEqual({ photoRef: 'photo', mapsUrl: 'maps-url' })
+	expect(attempts).toBe(3)
+})
+
+test('converts opening hours periods from place details', async () => {
+	server.use(
+		http.get(PLACE_DETAILS_URL, () =>
+			HttpResponse.json({
+				result: {
+					opening_hours: {
+						periods: [
+							{
+								open: { day: 6, time: '1700' },
+								close: { day: 0, time: '0130' },
+							},
+						],
+					},
+				},
+				status: 'OK',
+			}),
+		),
+	)
+
+	const details = await skipWaits(
+		new GooglePlacesProvider().getRestaurantDetails('fixture-slc-01'),
+	)
+
+	expect(details.openingHours).toEqual([
+		{ open: { day: 6, time: '17:00' }, close: { day: 0, time: '01:30' } },
+	])
+})
+
+test('gives up on place details after the last retry', async () => {
+	server.use(
+		http.get(PLACE_DETAILS_URL, () =>
+			HttpResponse.json({ status: 'OVER_QUERY_LIMIT' }),
+		),
+	)
+
+	await expect(
+		skipWaits(
+			new GooglePlacesProvider().getRestaurantDetails('fixture-slc-01'),
+		),
+	).rejects.toThrow(/OVER_QUERY_LIMIT/)
+})
@@ -1,4 +1,7 @@
 import { invariant } from '@epic-web/invariant'
+import { type OpeningHours } from '../opening-hours'
+import { getTagsFromPlace } from './place-types'
+import { type ProviderRestaurant, type ProviderRestaurantDetails, type RestaurantProvider } from './provider'
 
 interface NearbySearchParams {
   lat: number
@@ -19,7 +22,9 @@ interface NearbySearchResponse {
       }
     }
     vicinity: string
+    types?: string[]
   }>
+  next_page_token?: string
   status: string
 }
 
@@ -29,83 +34,181 @@ interface PlaceDetailsResponse {
       photo_reference: string
     }>
     url?: string
+    opening_hours?: {
+      periods?: Array<{
+        open: GooglePlaceTime
+        close?: GooglePlaceTime
+      }>
+    }
   }
   status: string
 }
 
-interface Restaurant {
-  id: string
-  name: string
-  priceLevel?: number
-  rating?: number
-  lat: number
-  lng: number
-  photoRef?: string
-  mapsUrl?: string
+// day is 0 (Sunday) to 6 and time is HHmm in the place's time zone
+interface GooglePlaceTime {
+  day: number
+  time: string
+}
+
+// Google returns up to 20 results per page and at most 3 pages
+const MAX_NEARBY_RESULTS = 60
+// A next_page_token isn't valid until a short time after it's issued
+const NEXT_PAGE_TOKEN_DELAY = 2000
+const NEXT_PAGE_TOKEN_ATTEMPTS = 3
+// Place Details requests that fail for transient reasons are retried with
+// exponential backoff (500ms, 1s, ...)
+const PLACE_DETAILS_ATTEMPTS = 3
+const PLACE_DETAILS_BACKOFF = 500
+const RETRYABLE_STATUSES = ['OVER_QUERY_LIMIT', 'UNKNOWN_ERROR']
+
+type NearbyPlace = NearbySearchResponse['results'][number]
+
+function toOpeningHours(
+  periods: NonNullable<PlaceDetailsResponse['result']['opening_hours']>['periods'],
+): OpeningHours | undefined {
+  if (!periods) return undefined
+  const toDayTime = ({ day, time }: GooglePlaceTime) => ({
+    day,
+    time: `${time.slice(0, 2)}:${time.slice(2, 4)}`,
+  })
+  return periods.map(({ open, close }) => ({
+    open: toDayTime(open),
+    close: close ? toDayTime(close) : null,
+  }))
 }
 
-export async function getNearbyRestaurants({
-  lat,
-  lng,
-  radius,
-}: NearbySearchParams): Promise<Restaurant[]> {
+function getApiKey() {
   invariant(process.env.GOOGLE_PLACES_API_KEY, 'GOOGLE_PLACES_API_KEY is required')
-  
-  // Make the initial Nearby Search request
+  return process.env.GOOGLE_PLACES_API_KEY
+}
+
+function getMaxResults() {
+  const maxResults = Number(process.env.GOOGLE_PLACES_MAX_RESULTS)
+  return maxResults > 0 ? Math.min(maxResults, MAX_NEARBY_RESULTS) : MAX_NEARBY_RESULTS
+}
+
+function sleep(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms))
+}
+
+async function fetchNearbySearchPage(searchParams: Record<string, string>) {
   const nearbySearchUrl = new URL('https://maps.googleapis.com/maps/api/place/nearbysearch/json')
-  nearbySearchUrl.searchParams.append('location', `${lat},${lng}`)
-  nearbySearchUrl.searchParams.append('radius', radius.toString())
-  nearbySearchUrl.searchParams.append('type', 'restaurant')
-  nearbySearchUrl.searchParams.append('key', process.env.GOOGLE_PLACES_API_KEY)
-  
+  for (const [key, value] of Object.entries(searchParams)) {
+    nearbySearchUrl.searchParams.append(key, value)
+  }
+  nearbySearchUrl.searchParams.append('key', getApiKey())
+
   const nearbySearchResponse = await fetch(nearbySearchUrl.toString())
-  const nearbySearchData = await nearbySearchResponse.json() as NearbySearchResponse
-  
-  if (nearbySearchData.status !== 'OK' && nearbySearchData.status !== 'ZERO_RESULTS') {
-    throw new Error(`Google Places API error: ${nearbySearchData.status}`)
+  return await nearbySearchResponse.json() as NearbySearchResponse
+}
+
+// Google answers INVALID_REQUEST until a page token becomes active, so wait
+// before using it and keep waiting a little longer if it's still not ready
+async function fetchNextNearbySearchPage(pageToken: string) {
+  for (let attempt = 1; attempt <= NEXT_PAGE_TOKEN_ATTEMPTS; attempt++) {
+    await sleep(NEXT_PAGE_TOKEN_DELAY * attempt)
+    const page = await fetchNearbySearchPage({ pagetoken: pageToken })
+    if (page.status !== 'INVALID_REQUEST') return page
   }
-  
-  if (nearbySearchData.status === 'ZERO_RESULTS' || !nearbySearchData.results.length) {
-    return []
+  throw new Error('Google Places API error: next_page_token never became valid')
+}
+
+/**
+ * Runs a nearby search, following next_page_token until there are no more
+ * pages or we have GOOGLE_PLACES_MAX_RESULTS places. Places that show up on
+ * more than one page are only returned once.
+ */
+async function searchNearbyPlaces({ lat, lng, radius }: NearbySearchParams) {
+  const maxResults = getMaxResults()
+  const places = new Map<string, NearbyPlace>()
+
+  let page = await fetchNearbySearchPage({
+    location: `${lat},${lng}`,
+    radius: radius.toString(),
+    type: 'restaurant',
+  })
+  while (true) {
+    if (page.status !== 'OK' && page.status !== 'ZERO_RESULTS') {
+      throw new Error(`Google Places API error: ${page.status}`)
+    }
+
+    for (const place of page.results) {
+      if (places.size >= maxResults) break
+      places.set(place.place_id, place)
+    }
+
+    if (!page.next_page_token || places.size >= maxResults) break
+    page = await fetchNextNearbySearchPage(page.next_page_token)
   }
-  
-  // For each restaurant, get additional details
-  const restaurantsWithDetails = await Promise.all(
-    nearbySearchData.results.map(async (place) => {
-      const placeDetailsUrl = new URL('https://maps.googleapis.com/maps/api/place/details/json')
-      placeDetailsUrl.searchParams.append('place_id', place.place_id)
-      placeDetailsUrl.searchParams.append('fields', 'photos,url')
-      placeDetailsUrl.searchParams.append('key', process.env.GOOGLE_PLACES_API_KEY)
-      
+
+  return [...places.values()]
+}
+
+async function fetchPlaceDetails(placeId: string) {
+  const placeDetailsUrl = new URL('https://maps.googleapis.com/maps/api/place/details/json')
+  placeDetailsUrl.searchParams.append('place_id', placeId)
+  placeDetailsUrl.searchParams.append('fields', 'photos,url,opening_hours')
+  placeDetailsUrl.searchParams.append('key', getApiKey())
+
+  for (let attempt = 1; ; attempt++) {
+    const canRetry = attempt < PLACE_DETAILS_ATTEMPTS
+    try {
       const placeDetailsResponse = await fetch(placeDetailsUrl.toString())
-      const placeDetailsData = await placeDetailsResponse.json() as PlaceDetailsResponse
-      
-      if (placeDetailsData.status !== 'OK') {
-        console.error(`Error fetching details for place ${place.place_id}: ${placeDetailsData.status}`)
-        // Return basic restaurant info without details
-        return {
-          id: place.place_id,
-          name: place.name,
-          priceLevel: place.price_level,
-          rating: place.rating,
-          lat: place.geometry.location.lat,
-          lng: place.geometry.location.lng,
-        }
+      if (placeDetailsResponse.status >= 500 || placeDetailsResponse.status === 429) {
+        throw new Error(`Google Places API error: HTTP ${placeDetailsResponse.status}`)
       }
-      
-      // Transform data to match our database schema
-      return {
-        id: place.place_id,
-        name: place.name,
-        priceLevel: place.price_level,
-        rating: place.rating,
-        lat: place.geometry.location.lat,
-        lng: place.geometry.location.lng,
-        photoRef: placeDetailsData.result.photos?.[0]?.photo_reference,
-        mapsUrl: placeDetailsData.result.url,
+      const placeDetailsData = await placeDetailsResponse.json() as PlaceDetailsResponse
+      if (!canRetry || !RETRYABLE_STATUSES.includes(placeDetailsData.status)) {
+        return placeDetailsData
       }
-    })
-  )
-  
-  return restaurantsWithDetails
-} 
\ No newline at end of file
+    } catch (error) {
+      if (!canRetry) throw error
+    }
+    await sleep(PLACE_DETAILS_BACKOFF * 2 ** (attempt - 1))
+  }
+}
+
+export class GooglePlacesProvider implements RestaurantProvider {
+  async getNearbyRestaurants(params: NearbySearchParams): Promise<ProviderRestaurant[]> {
+    const places = await searchNearbyPlaces(params)
+
+    // Place Details (photo and maps URL) are looked up separately and only for
+    // the restaurants we show, see getRestaurantDetails
+    return places.map((place) => ({
+      id: place.place_id,
+      name: place.name,
+      priceLevel: place.price_level,
+      rating: place.rating,
+      lat: place.geometry.location.lat,
+      lng: place.geometry.location.lng,
+      address: place.vicinity,
+      ...getTagsFromPlace({ name: place.name, types: place.types ?? [] }),
+    }))
+  }
+
+  async getRestaurantDetails(placeId: string): Promise<ProviderRestaurantDetails> {
+    const placeDetailsData = await fetchPlaceDetails(placeId)
+
+    if (placeDetailsData.status === 'NOT_FOUND' || placeDetailsData.status === 'ZERO_RESULTS') {
+      return {}
+    }
+    if (placeDetailsData.status !== 'OK') {
+      throw new Error(`Google Places API error for place ${placeId}: ${placeDetailsData.status}`)
+    }
+
+    return {
+      photoRef: placeDetailsData.result.photos?.[0]?.photo_reference,
+      mapsUrl: placeDetailsData.result.url,
+      openingHours: toOpeningHours(placeDetailsData.result.opening_hours?.periods),
+    }
+  }
+
+  async getPhoto(photoRef: string) {
+    const photoUrl = new URL('https://maps.googleapis.com/maps/api/place/photo')
+    photoUrl.searchParams.append('maxwidth', '400')
+    photoUrl.searchParams.append('photoreference', photoRef)
+    photoUrl.searchParams.append('key', getApiKey())
+
+    return fetch(photoUrl.toString())
+  }
+}
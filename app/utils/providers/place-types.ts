@@ -0,0 +1,119 @@
+import { type Cuisine, type DietaryOption } from '../restaurant-tags.ts'
+
+// Place types that say what a restaurant serves. Fixtures use Google's newer
+// types like sushi_restaurant, but nearby search only ever returns the older,
+// broader ones like cafe, bakery and bar.
+const PLACE_TYPE_CUISINES: Record<string, Cuisine> = {
+	american_restaurant: 'american',
+	bakery: 'bakery',
+	bar: 'bar',
+	barbecue_restaurant: 'bbq',
+	breakfast_restaurant: 'breakfast',
+	brunch_restaurant: 'breakfast',
+	cafe: 'cafe',
+	chinese_restaurant: 'chinese',
+	coffee_shop: 'cafe',
+	french_restaurant: 'french',
+	hamburger_restaurant: 'burgers',
+	indian_restaurant: 'indian',
+	italian_restaurant: 'italian',
+	japanese_restaurant: 'japanese',
+	korean_restaurant: 'korean',
+	mediterranean_restaurant: 'mediterranean',
+	mexican_restaurant: 'mexican',
+	middle_eastern_restaurant: 'middle-eastern',
+	pizza_restaurant: 'pizza',
+	ramen_restaurant: 'ramen',
+	seafood_restaurant: 'seafood',
+	steak_house: 'steakhouse',
+	sushi_restaurant: 'sushi',
+	thai_restaurant: 'thai',
+	vietnamese_restaurant: 'vietnamese',
+}
+
+const PLACE_TYPE_DIETARY_OPTIONS: Record<string, Array<DietaryOption>> = {
+	vegetarian_restaurant: ['vegetarian'],
+	vegan_restaurant: ['vegetarian', 'vegan'],
+}
+
+export function getTagsFromPlaceTypes(types: Array<string>) {
+	return {
+		cuisines: [
+			...new Set(types.flatMap((type) => PLACE_TYPE_CUISINES[type] ?? [])),
+		],
+		dietaryOptions: [
+			...new Set(
+				types.flatMap((type) => PLACE_TYPE_DIETARY_OPTIONS[type] ?? []),
+			),
+		],
+	}
+}
+
+// Words in a place's name that give away what it serves, since Google's nearby
+// search has no types for cuisines or diets
+const NAME_CUISINES: Array<[RegExp, Array<Cuisine>]> = [
+	[/\bamerican\b/i, ['american']],
+	[/\b(bakery|bakehouse|patisserie)\b/i, ['bakery']],
+	[/\b(pub|tavern|taproom|saloon)\b/i, ['bar']],
+	[/\b(bbq|barbecue|smokehouse)\b/i, ['bbq']],
+	[/\b(breakfast|brunch|diner|pancakes?)\b/i, ['breakfast']],
+	[/\bburgers?\b/i, ['burgers']],
+	[/\b(cafe|coffee|espresso)\b/i, ['cafe']],
+	[/\b(chinese|dumplings?|dim sum|szechuan|sichuan)\b/i, ['chinese']],
+	[/\b(french|brasserie|bistrot|creperie)\b/i, ['french']],
+	[/\b(indian|curry|tandoori?|masala)\b/i, ['indian']],
+	[/\b(italian|trattoria|osteria|pasta)\b/i, ['italian']],
+	[/\b(japanese|izakaya)\b/i, ['japanese']],
+	[/\b(korean|bibimbap)\b/i, ['korean']],
+	[/\b(mediterranean|greek)\b/i, ['mediterranean']],
+	[/\b(mexican|tacos?|taqueria|cantina|burritos?)\b/i, ['mexican']],
+	[
+		/\b(middle eastern|lebanese|persian|mezze|falafel|shawarma|kebabs?)\b/i,
+		['middle-eastern'],
+	],
+	[/\b(pizza|pizzeria)\b/i, ['pizza']],
+	[/\bramen\b/i, ['ramen', 'japanese']],
+	[/\b(seafood|oysters?|fish|crab|lobster)\b/i, ['seafood']],
+	[/\b(steakhouse|steak house|chophouse)\b/i, ['steakhouse']],
+	[/\bsushi\b/i, ['sushi', 'japanese']],
+	[/\bthai\b/i, ['thai']],
+	[/\b(vietnamese|pho|banh mi)\b/i, ['vietnamese']],
+]
+
+const NAME_DIETARY_OPTIONS: Array<[RegExp, Array<DietaryOption>]> = [
+	[/\b(vegetarian|veggie)\b/i, ['vegetarian']],
+	[/\bvegan\b/i, ['vegetarian', 'vegan']],
+	[/\bgluten[- ]free\b/i, ['gluten-free']],
+]
+
+/**
+ * Tags for a place from Google's nearby search, from its broad types and
+ * anything its name gives away.
+ */
+export function getTagsFromPlace({
+	name,
+	types,
+}: {
+	name: string
+	types: Array<string>
+}) {
+	const tags = getTagsFromPlaceTypes(types)
+	return {
+		cuisines: [
+			...new Set([
+				...tags.cuisines,
+				...NAME_CUISINES.flatMap(([pattern, cuisines]) =>
+					pattern.test(name) ? cuisines : [],
+				),
+			]),
+		],
+		dietaryOptions: [
+			...new Set([
+				...tags.dietaryOptions,
+				...NAME_DIETARY_OPTIONS.flatMap(([pattern, options]) =>
+					pattern.test(name) ? options : [],
+				),
+			]),
+		],
+	}
+}
@@ -1,4 +1,6 @@
 import { type Strategy } from 'remix-auth/strategy'
+import { type OpeningHours } from '../opening-hours.ts'
+import { type Cuisine, type DietaryOption } from '../restaurant-tags.ts'
 import { type Timings } from '../timing.server.ts'
 
 // Define a user type for cleaner typing
@@ -26,3 +28,33 @@ export const normalizeEmail = (s: string) => s.toLowerCase()
 
 export const normalizeUsername = (s: string) =>
 	s.replace(/[^a-zA-Z0-9_]/g, '_').toLowerCase()
+
+export type ProviderRestaurant = {
+	id: string
+	name: string
+	priceLevel?: number
+	rating?: number
+	lat: number
+	lng: number
+	address?: string
+	photoRef?: string
+	mapsUrl?: string
+	cuisines?: Array<Cuisine>
+	dietaryOptions?: Array<DietaryOption>
+	openingHours?: OpeningHours
+}
+
+export type ProviderRestaurantDetails = Pick<
+	ProviderRestaurant,
+	'photoRef' | 'mapsUrl' | 'openingHours'
+>
+
+export interface RestaurantProvider {
+	getNearbyRestaurants(params: {
+		lat: number
+		lng: number
+		radius: number
+	}): Promise<Array<ProviderRestaurant>>
+	getRestaurantDetails(id: string): Promise<ProviderRestaurantDetails>
+	getPhoto(photoRef: string): Promise<Response>
+}
@@ -0,0 +1,51 @@
+import { type User } from '@prisma/client'
+import { prisma } from './db.server.ts'
+import {
+	isWebPushConfigured,
+	sendWebPush,
+	type WebPushPayload,
+	type WebPushSubscription,
+} from './web-push.server.ts'
+
+export async function savePushSubscription(
+	userId: User['id'],
+	subscription: WebPushSubscription,
+	userAgent: string | null,
+) {
+	// a browser keeps its endpoint when someone else signs in on it. Only that
+	// browser knows its endpoint and keys, so whoever sends them now owns it and
+	// the previous user stops getting notifications on a device they left.
+	await prisma.pushSubscription.upsert({
+		where: { endpoint: subscription.endpoint },
+		update: { ...subscription, userId, userAgent },
+		create: { ...subscription, userId, userAgent },
+	})
+}
+
+/**
+ * Sends a push notification to every device the users subscribed, cleaning
+ * up subscriptions the push service says are gone.
+ */
+export async function sendPushToUsers(
+	userIds: Array<User['id']>,
+	payload: WebPushPayload,
+) {
+	if (!isWebPushConfigured() || !userIds.length) return
+
+	const subscriptions = await prisma.pushSubscription.findMany({
+		where: { userId: { in: userIds } },
+		select: { id: true, endpoint: true, p256dh: true, auth: true },
+	})
+	await Promise.all(
+		subscriptions.map(async ({ id, ...subscription }) => {
+			try {
+				const { expired } = await sendWebPush(subscription, payload)
+				if (expired) {
+					await prisma.pushSubscription.delete({ where: { id } })
+				}
+			} catch (error) {
+				console.error(`Error sending push notification to ${id}:`, error)
+			}
+		}),
+	)
+}
@@ -0,0 +1,27 @@
+import { FixtureRestaurantProvider } from './providers/fixture-restaurants.server.ts'
+import { GooglePlacesProvider } from './providers/google-places.server.ts'
+import { type RestaurantProvider } from './providers/provider.ts'
+
+export const restaurantProviderNames = ['google', 'fixture'] as const
+export type RestaurantProviderName = (typeof restaurantProviderNames)[number]
+
+export const restaurantProviders: Record<
+	RestaurantProviderName,
+	RestaurantProvider
+> = {
+	google: new GooglePlacesProvider(),
+	fixture: new FixtureRestaurantProvider(),
+}
+
+/**
+ * Uses RESTAURANT_PROVIDER when it's set, otherwise Google Places when there's
+ * an API key for it and the local fixture provider when there isn't.
+ */
+export function getRestaurantProviderName(): RestaurantProviderName {
+	if (process.env.RESTAURANT_PROVIDER) return process.env.RESTAURANT_PROVIDER
+	return process.env.GOOGLE_PLACES_API_KEY ? 'google' : 'fixture'
+}
+
+export function getRestaurantProvider() {
+	return restaurantProviders[getRestaurantProviderName()]
+}
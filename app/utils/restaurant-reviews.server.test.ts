@@ -0,0 +1,86 @@
+import { expect, test } from 'vitest'
+import { createUser } from '#tests/db-utils.ts'
+import { prisma } from './db.server.ts'
+import { archivePastDinnerGroups } from './dinner-history.server.ts'
+import {
+	getTeamRatings,
+	saveRestaurantReview,
+} from './restaurant-reviews.server.ts'
+
+async function setupDinner() {
+	const event = await prisma.event.create({
+		select: { id: true },
+		data: {
+			slug: 'review-conference',
+			name: 'Review Conference',
+			venueName: 'Hilton Salt Lake City Center',
+			address: '255 S West Temple, Salt Lake City, UT 84101',
+			lat: 40.7596,
+			lng: -111.8867,
+			startDate: new Date('2026-10-18'),
+			endDate: new Date('2026-10-20'),
+			timezone: 'America/Denver',
+		},
+	})
+	const restaurant = await prisma.restaurant.create({
+		select: { id: true },
+		data: {
+			id: 'review-bistro',
+			name: 'Review Bistro',
+			lat: 40.76,
+			lng: -111.89,
+		},
+	})
+	const [alice, bob, carol] = await Promise.all(
+		[createUser(), createUser(), createUser()].map((user) =>
+			prisma.user.create({ select: { id: true }, data: user }),
+		),
+	)
+	await prisma.dinnerGroup.create({
+		data: {
+			eventId: event.id,
+			restaurantId: restaurant.id,
+			date: '2026-10-18',
+			attendees: {
+				create: [{ userId: alice!.id }, { userId: bob!.id }],
+			},
+		},
+	})
+	await archivePastDinnerGroups(new Date('2026-10-19T15:00:00Z'))
+	return { restaurant, alice: alice!, bob: bob!, carol: carol! }
+}
+
+test('attendees can review the restaurant and it counts toward the team rating', async () => {
+	const { restaurant, alice, bob } = await setupDinner()
+
+	expect(
+		await saveRestaurantReview(alice.id, restaurant.id, {
+			rating: 5,
+			content: 'Great pasta',
+		}),
+	).toEqual({ status: 'success' })
+	await saveRestaurantReview(bob.id, restaurant.id, {
+		rating: 4,
+		content: null,
+	})
+	// saving again replaces the earlier review
+	await saveRestaurantReview(bob.id, restaurant.id, {
+		rating: 3,
+		content: null,
+	})
+
+	const teamRatings = await getTeamRatings()
+	expect(teamRatings.get(restaurant.id)).toEqual({ average: 4, count: 2 })
+})
+
+test("people who didn't have dinner there can't review it", async () => {
+	const { restaurant, carol } = await setupDinner()
+
+	const result = await saveRestaurantReview(carol.id, restaurant.id, {
+		rating: 1,
+		content: null,
+	})
+
+	expect(result.status).toBe('error')
+	expect(await prisma.restaurantReview.count()).toBe(0)
+})
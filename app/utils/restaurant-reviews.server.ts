@@ -0,0 +1,86 @@
+import { type Restaurant, type User } from '@prisma/client'
+import { prisma } from './db.server.ts'
+import { getTodayInTimeZone } from './events.ts'
+
+export type TeamRating = { average: number; count: number }
+
+/**
+ * Whether the user had dinner at the restaurant, either in a dinner group
+ * that's been archived or one whose night is over.
+ */
+async function hasHadDinnerAt(
+	userId: User['id'],
+	restaurantId: Restaurant['id'],
+) {
+	const archived = await prisma.dinnerHistoryAttendee.findFirst({
+		where: { userId, dinnerHistory: { restaurantId } },
+		select: { id: true },
+	})
+	if (archived) return true
+
+	const attended = await prisma.attendee.findMany({
+		where: { userId, dinnerGroup: { restaurantId } },
+		select: {
+			dinnerGroup: {
+				select: { date: true, event: { select: { timezone: true } } },
+			},
+		},
+	})
+	return attended.some(
+		({ dinnerGroup }) =>
+			dinnerGroup.date < getTodayInTimeZone(dinnerGroup.event.timezone),
+	)
+}
+
+/**
+ * Saves the user's rating and review of a restaurant, replacing the one they
+ * left before. Only people who had dinner there can review it.
+ */
+export async function saveRestaurantReview(
+	userId: User['id'],
+	restaurantId: Restaurant['id'],
+	{ rating, content }: { rating: number; content: string | null },
+) {
+	if (!(await hasHadDinnerAt(userId, restaurantId))) {
+		return {
+			status: 'error',
+			error: "You can only review restaurants you've had dinner at",
+		} as const
+	}
+
+	await prisma.restaurantReview.upsert({
+		where: { userId_restaurantId: { userId, restaurantId } },
+		update: { rating, content },
+		create: { userId, restaurantId, rating, content },
+	})
+
+	return { status: 'success' } as const
+}
+
+export async function deleteRestaurantReview(
+	userId: User['id'],
+	restaurantId: Restaurant['id'],
+) {
+	await prisma.restaurantReview.deleteMany({ where: { userId, restaurantId } })
+}
+
+/**
+ * The average rating and number of reviews from the team, by restaurant.
+ */
+export async function getTeamRatings() {
+	const ratings = await prisma.restaurantReview.groupBy({
+		by: ['restaurantId'],
+		_avg: { rating: true },
+		_count: { rating: true },
+	})
+	return new Map<Restaurant['id'], TeamRating>(
+		ratings.map((rating) => [
+			rating.restaurantId,
+			{
+				// one decimal, like the provider's ratings
+				average: Math.round((rating._avg.rating ?? 0) * 10) / 10,
+				count: rating._count.rating,
+			},
+		]),
+	)
+}
@@ -0,0 +1 @@
+export const RESTAURANT_REVIEW_MAX_LENGTH = 280
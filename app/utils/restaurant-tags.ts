@@ -0,0 +1,63 @@
+export const CUISINES = [
+	{ value: 'american', label: 'American' },
+	{ value: 'bakery', label: 'Bakery' },
+	{ value: 'bar', label: 'Bar' },
+	{ value: 'bbq', label: 'BBQ' },
+	{ value: 'breakfast', label: 'Breakfast' },
+	{ value: 'burgers', label: 'Burgers' },
+	{ value: 'cafe', label: 'Cafe' },
+	{ value: 'chinese', label: 'Chinese' },
+	{ value: 'french', label: 'French' },
+	{ value: 'indian', label: 'Indian' },
+	{ value: 'italian', label: 'Italian' },
+	{ value: 'japanese', label: 'Japanese' },
+	{ value: 'korean', label: 'Korean' },
+	{ value: 'mediterranean', label: 'Mediterranean' },
+	{ value: 'mexican', label: 'Mexican' },
+	{ value: 'middle-eastern', label: 'Middle Eastern' },
+	{ value: 'pizza', label: 'Pizza' },
+	{ value: 'ramen', label: 'Ramen' },
+	{ value: 'seafood', label: 'Seafood' },
+	{ value: 'steakhouse', label: 'Steakhouse' },
+	{ value: 'sushi', label: 'Sushi' },
+	{ value: 'thai', label: 'Thai' },
+	{ value: 'vietnamese', label: 'Vietnamese' },
+] as const
+
+export type Cuisine = (typeof CUISINES)[number]['value']
+
+export const DIETARY_OPTIONS = [
+	{ value: 'vegetarian', label: 'Vegetarian' },
+	{ value: 'vegan', label: 'Vegan' },
+	{ value: 'gluten-free', label: 'Gluten-free' },
+] as const
+
+export type DietaryOption = (typeof DIETARY_OPTIONS)[number]['value']
+
+export function isCuisine(value: string): value is Cuisine {
+	return CUISINES.some((cuisine) => cuisine.value === value)
+}
+
+export function isDietaryOption(value: string): value is DietaryOption {
+	return DIETARY_OPTIONS.some((option) => option.value === value)
+}
+
+/**
+ * Tags are stored as a comma separated list. Anything we don't know about
+ * anymore is dropped.
+ */
+export function parseCuisines(value: string) {
+	return value.split(',').filter(isCuisine)
+}
+
+export function parseDietaryOptions(value: string) {
+	return value.split(',').filter(isDietaryOption)
+}
+
+export function getCuisineLabel(cuisine: Cuisine) {
+	return CUISINES.find((option) => option.value === cuisine)?.label ?? cuisine
+}
+
+export function getDietaryOptionLabel(option: DietaryOption) {
+	return DIETARY_OPTIONS.find(({ value }) => value === option)?.label ?? option
+}
@@ -1,12 +1,30 @@
-import { type User } from '@prisma/client'
-import { cachified } from './cache.server'
+import { invariantResponse } from '@epic-web/invariant'
+import { type Event, type Prisma, type Restaurant, type User } from '@prisma/client'
+import { cache, cachified } from './cache.server'
 import { lruCache } from './cache.server'
 import { prisma } from './db.server'
-import { getNearbyRestaurants } from './providers/google-places.server'
+import { sendWaitlistPromotionEmail } from './dinner-group-emails.server'
+import { notifyDinnerGroupDissolved, notifyDinnerGroupJoined, notifyDinnerGroupUpdated } from './dinner-group-notifications.server'
+import { emitDinnerGroupUpdate } from './dinner-group-updates.server'
+import { getTeamVisitCounts } from './dinner-history.server'
+import { formatTime } from './events'
+import { calculateDistance, MILES_TO_METERS } from './geo'
+import { DEFAULT_DINNER_TIME, getDayOfWeek, isOpenAt, parseOpeningHours, WEEKDAYS, type OpeningHours } from './opening-hours'
+import { requireUserWithPermission } from './permissions.server'
+import { getRestaurantProvider, getRestaurantProviderName } from './restaurant-providers.server'
+import { getTeamRatings } from './restaurant-reviews.server'
+import { parseCuisines, parseDietaryOptions, type Cuisine, type DietaryOption } from './restaurant-tags'
 
 // Cache TTLs in milliseconds
-const GOOGLE_PLACES_CACHE_TTL = 1000 * 60 * 60 * 24 // 24 hours
+const PROVIDER_CACHE_TTL = 1000 * 60 * 60 * 24 // 24 hours
 const RESTAURANT_CACHE_TTL = 1000 * 60 * 60 * 24 // 24 hours
+const PLACE_DETAILS_CACHE_TTL = 1000 * 60 * 60 * 24 * 7 // 7 days
+
+// The widest distance filter, so a refresh covers every restaurant people see
+const RESTAURANT_REFRESH_RADIUS = 10 * MILES_TO_METERS
+
+// Most place details lookups to have in flight at once, across all requests
+const PLACE_DETAILS_CONCURRENCY = 4
 
 // Types
 export interface RestaurantWithDetails {
@@ -14,84 +32,49 @@ export interface RestaurantWithDetails {
   name: string
   priceLevel?: number | null
   rating?: number | null
+  teamRating: number | null // average rating from attendees' reviews
+  teamRatingCount: number
+  teamVisitCount: number // how many times people on the team have eaten there
   lat: number
   lng: number
   photoRef?: string | null
   mapsUrl?: string | null
+  cuisines: Cuisine[]
+  dietaryOptions: DietaryOption[]
+  openingHours: OpeningHours | null // null when unknown
   distance: number // in miles
   attendeeCount: number
+  reservationTime: string | null // HH:mm in the event's time zone
+  capacity: number | null
   isUserAttending: boolean
+  isFavorite: boolean // saved by the user
+  waitlistCount: number
+  userWaitlistPosition: number | null // 1-based, null when not on the waitlist
+  dinnerGroupId: string | null
+  notes: string | null
+  canManage: boolean // the user can edit the group, hand over hosting and remove people
+  // People who hide their name in dinners only come with their id when the
+  // user can manage the group, which needs it to make them host or remove them
+  attendees: Array<
+    | { isHidden: false, isOrganizer: boolean, id: string, name: string | null, username: string }
+    | { isHidden: true, isOrganizer: boolean, id?: string }
+  >
 }
 
-// Helper functions
-function calculateDistance(lat1: number, lng1: number, lat2: number, lng2: number): number {
-  // Haversine formula to calculate distance between two points on Earth
-  const R = 3958.8 // Earth's radius in miles
-  const dLat = toRad(lat2 - lat1)
-  const dLng = toRad(lng2 - lng1)
-  const a =
-    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
-    Math.cos(toRad(lat1)) * Math.cos(toRad(lat2)) * Math.sin(dLng / 2) * Math.sin(dLng / 2)
-  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a))
-  const distance = R * c
-  return parseFloat(distance.toFixed(1)) // Round to 1 decimal place
-}
-
-function toRad(degrees: number): number {
-  return degrees * (Math.PI / 180)
+// A single night of an event, which is what dinner groups are scoped to
+export interface DinnerNight {
+  eventId: Event['id']
+  date: string // yyyy-MM-dd in the event's time zone
 }
 
 // Restaurant Service Functions
 export async function getAllRestaurantDetails(
-  userLat: number,
-  userLng: number,
+  event: Pick<Event, 'id' | 'lat' | 'lng'>,
+  date: DinnerNight['date'],
   radius: number,
   userId?: string
 ): Promise<RestaurantWithDetails[]> {
-  // Get restaurants from Google Places API with caching
-  const restaurants = await cachified({
-    key: `google-places-restaurants-${userLat}-${userLng}-${radius}`,
-    cache: lruCache,
-    ttl: GOOGLE_PLACES_CACHE_TTL,
-    getFreshValue: async () => {
-      const places = await getNearbyRestaurants({
-        lat: userLat,
-        lng: userLng,
-        radius,
-      })
-      
-      // Upsert restaurants to database
-      await Promise.all(
-        places.map(async (place) => {
-          await prisma.restaurant.upsert({
-            where: { id: place.id },
-            update: {
-              name: place.name,
-              priceLevel: place.priceLevel,
-              rating: place.rating,
-              lat: place.lat,
-              lng: place.lng,
-              photoRef: place.photoRef,
-              mapsUrl: place.mapsUrl,
-              updatedAt: new Date(),
-            },
-            create: {
-              id: place.id,
-              name: place.name,
-              priceLevel: place.priceLevel,
-              rating: place.rating,
-              lat: place.lat,
-              lng: place.lng,
-              photoRef: place.photoRef,
-              mapsUrl: place.mapsUrl,
-            },
-          })
-        })
-      )
-      
-      return places
-    },
-  })
+  await getNearbyRestaurants(event, radius)
   
   // Get all restaurants from database with caching
   const dbRestaurants = await cachified({
@@ -103,22 +86,47 @@ export async function getAllRestaurantDetails(
     },
   })
   
-  // Get all dinner groups with attendee counts (not cached - must be real-time)
+  // Get the night's dinner groups with attendee counts (not cached - must be real-time)
   const dinnerGroups = await prisma.dinnerGroup.findMany({
+    where: { eventId: event.id, date },
     include: {
       _count: {
         select: {
           attendees: true,
         },
       },
+      waitlist: {
+        select: { userId: true },
+        orderBy: { createdAt: 'asc' },
+      },
+      attendees: {
+        select: {
+          user: { select: { id: true, name: true, username: true, hideNameInDinners: true } },
+        },
+        orderBy: { createdAt: 'asc' },
+      },
     },
   })
   
-  // Get the dinner group the user is attending (if any)
+  // Reviews come in all the time, so team ratings and visits aren't cached either
+  const [teamRatings, teamVisitCounts] = await Promise.all([
+    getTeamRatings(),
+    getTeamVisitCounts(),
+  ])
+  
+  // Get the dinner group the user is attending that night (if any) and the
+  // restaurants they've saved
   let userAttendingRestaurantId: string | null = null
+  let favoriteRestaurantIds = new Set<string>()
   if (userId) {
-    const userAttendee = await prisma.attendee.findUnique({
+    const favorites = await prisma.favoriteRestaurant.findMany({
       where: { userId },
+      select: { restaurantId: true },
+    })
+    favoriteRestaurantIds = new Set(favorites.map((favorite) => favorite.restaurantId))
+    
+    const userAttendee = await prisma.attendee.findFirst({
+      where: { userId, dinnerGroup: { eventId: event.id, date } },
       include: {
         dinnerGroup: true,
       },
@@ -128,113 +136,775 @@ export async function getAllRestaurantDetails(
       userAttendingRestaurantId = userAttendee.dinnerGroup.restaurantId
     }
   }
+  const manageAccess = await getDinnerGroupManageAccess(userId)
+  
+  // The database holds restaurants for every event, so only keep the ones
+  // within the search radius of this venue (or that already host a group here)
+  const radiusInMiles = radius / MILES_TO_METERS
   
   // Combine data and calculate distances
-  const restaurantsWithDetails: RestaurantWithDetails[] = dbRestaurants.map((restaurant) => {
+  const restaurantsWithDetails: RestaurantWithDetails[] = dbRestaurants.flatMap((restaurant) => {
     const dinnerGroup = dinnerGroups.find(
       (group) => group.restaurantId === restaurant.id
     )
+    const distance = calculateDistance(event.lat, event.lng, restaurant.lat, restaurant.lng)
+    
+    if (!dinnerGroup && distance > radiusInMiles) {
+      return []
+    }
+    
+    const waitlistIndex = dinnerGroup?.waitlist.findIndex((entry) => entry.userId === userId) ?? -1
+    // Organizers can manage their own group, admins any group
+    const canManage = dinnerGroup
+      ? manageAccess.has(dinnerGroup.organizerId !== null && dinnerGroup.organizerId === userId ? 'own' : 'any')
+      : false
+    const teamRating = teamRatings.get(restaurant.id)
     
     return {
       id: restaurant.id,
       name: restaurant.name,
       priceLevel: restaurant.priceLevel,
       rating: restaurant.rating,
+      teamRating: teamRating?.average ?? null,
+      teamRatingCount: teamRating?.count ?? 0,
+      teamVisitCount: teamVisitCounts.get(restaurant.id) ?? 0,
       lat: restaurant.lat,
       lng: restaurant.lng,
       photoRef: restaurant.photoRef,
       mapsUrl: restaurant.mapsUrl,
-      distance: calculateDistance(userLat, userLng, restaurant.lat, restaurant.lng),
+      cuisines: parseCuisines(restaurant.cuisines),
+      dietaryOptions: parseDietaryOptions(restaurant.dietaryOptions),
+      openingHours: parseOpeningHours(restaurant.openingHours),
+      distance,
       attendeeCount: dinnerGroup?._count.attendees ?? 0,
+      reservationTime: dinnerGroup?.reservationTime ?? null,
+      capacity: dinnerGroup?.capacity ?? null,
       isUserAttending: userAttendingRestaurantId === restaurant.id,
+      isFavorite: favoriteRestaurantIds.has(restaurant.id),
+      waitlistCount: dinnerGroup?.waitlist.length ?? 0,
+      userWaitlistPosition: waitlistIndex === -1 ? null : waitlistIndex + 1,
+      dinnerGroupId: dinnerGroup?.id ?? null,
+      notes: dinnerGroup?.notes ?? null,
+      canManage,
+      attendees: dinnerGroup?.attendees.map(({ user }) => {
+        const isOrganizer = user.id === dinnerGroup.organizerId
+        if (!user.hideNameInDinners || user.id === userId) {
+          return { isHidden: false as const, isOrganizer, id: user.id, name: user.name, username: user.username }
+        }
+        return canManage
+          ? { isHidden: true as const, isOrganizer, id: user.id }
+          : { isHidden: true as const, isOrganizer }
+      }) ?? [],
     }
   })
   
   return restaurantsWithDetails
 }
 
-export async function joinDinnerGroup(userId: User['id'], restaurantId: string) {
-  // First, check if the user is already in a dinner group
-  const existingAttendee = await prisma.attendee.findUnique({
-    where: { userId },
-    include: { dinnerGroup: true },
+// Gets restaurants from the configured provider with caching, saving them to
+// the database so they can be listed with their dinner groups
+async function getNearbyRestaurants(
+  event: Pick<Event, 'lat' | 'lng'>,
+  radius: number,
+  { forceFresh = false }: { forceFresh?: boolean } = {}
+) {
+  return cachified({
+    key: `${getRestaurantProviderName()}-restaurants-${event.lat}-${event.lng}-${radius}`,
+    cache: lruCache,
+    ttl: PROVIDER_CACHE_TTL,
+    forceFresh,
+    getFreshValue: async () => {
+      const places = await getRestaurantProvider().getNearbyRestaurants({
+        lat: event.lat,
+        lng: event.lng,
+        radius,
+      })
+      
+      // Providers can return the same place more than once (e.g. across pages),
+      // so dedupe by id to avoid racing upserts on the same row
+      const uniquePlaces = [...new Map(places.map((place) => [place.id, place])).values()]
+      
+      // Tags an admin has edited win over the provider's
+      const editedRestaurants = await prisma.restaurant.findMany({
+        where: { id: { in: uniquePlaces.map((place) => place.id) }, tagsEditedAt: { not: null } },
+        select: { id: true },
+      })
+      const editedRestaurantIds = new Set(editedRestaurants.map((restaurant) => restaurant.id))
+      
+      // Upsert restaurants to database
+      await Promise.all(
+        uniquePlaces.map(async (place) => {
+          const tags = {
+            cuisines: place.cuisines?.join(',') ?? '',
+            dietaryOptions: place.dietaryOptions?.join(',') ?? '',
+          }
+          await prisma.restaurant.upsert({
+            where: { id: place.id },
+            update: {
+              name: place.name,
+              priceLevel: place.priceLevel,
+              rating: place.rating,
+              lat: place.lat,
+              lng: place.lng,
+              address: place.address,
+              photoRef: place.photoRef,
+              mapsUrl: place.mapsUrl,
+              ...(editedRestaurantIds.has(place.id) ? {} : tags),
+              updatedAt: new Date(),
+            },
+            create: {
+              id: place.id,
+              name: place.name,
+              priceLevel: place.priceLevel,
+              rating: place.rating,
+              lat: place.lat,
+              lng: place.lng,
+              address: place.address,
+              photoRef: place.photoRef,
+              mapsUrl: place.mapsUrl,
+              ...tags,
+            },
+          })
+        })
+      )
+      
+      // Make sure newly discovered restaurants show up right away
+      lruCache.delete('all-restaurants')
+      
+      return uniquePlaces
+    },
+  })
+}
+
+/**
+ * Fetches the restaurants around every event that hasn't ended yet from the
+ * provider again, so ratings, prices and photos don't go stale.
+ */
+export async function refreshEventRestaurants(now = new Date()) {
+  const events = await prisma.event.findMany({
+    where: { endDate: { gte: now } },
+    select: { lat: true, lng: true },
   })
+  for (const event of events) {
+    await getNearbyRestaurants(event, RESTAURANT_REFRESH_RADIUS, { forceFresh: true })
+  }
+}
+
+// Runs at most `concurrency` of the given functions at a time, queueing the rest
+function createLimit(concurrency: number) {
+  let active = 0
+  const queue: Array<() => void> = []
   
-  // If the user is already in this dinner group, do nothing
-  if (existingAttendee && existingAttendee.dinnerGroup.restaurantId === restaurantId) {
-    return
+  return async function limit<T>(fn: () => Promise<T>): Promise<T> {
+    if (active < concurrency) {
+      active++
+    } else {
+      // wait for a running function to hand over its slot
+      await new Promise<void>((resolve) => queue.push(resolve))
+    }
+    try {
+      return await fn()
+    } finally {
+      const next = queue.shift()
+      if (next) next()
+      else active--
+    }
   }
+}
+
+const placeDetailsLimit = createLimit(PLACE_DETAILS_CONCURRENCY)
+
+/**
+ * Fills in the photo, maps URL and opening hours of the given restaurants.
+ * Details are looked up lazily (only for the restaurants that are actually
+ * shown) and cached per place in the SQLite cache, so a cold restaurant list
+ * doesn't cost a details request per place. Opening hours are saved on the
+ * restaurant too so they can be filtered on.
+ */
+export async function withRestaurantDetails<
+  R extends Pick<RestaurantWithDetails, 'id' | 'photoRef' | 'mapsUrl' | 'openingHours'>,
+>(restaurants: R[]): Promise<R[]> {
+  const providerName = getRestaurantProviderName()
+  
+  return Promise.all(
+    restaurants.map(async (restaurant) => {
+      try {
+        const details = await cachified({
+          // v2 added opening hours, which older cached details don't have
+          key: `${providerName}-place-details-v2-${restaurant.id}`,
+          cache,
+          ttl: PLACE_DETAILS_CACHE_TTL,
+          getFreshValue: async () => {
+            const freshDetails = await placeDetailsLimit(() =>
+              getRestaurantProvider().getRestaurantDetails(restaurant.id)
+            )
+            if (freshDetails.openingHours) {
+              await saveProviderOpeningHours(restaurant.id, freshDetails.openingHours)
+            }
+            return freshDetails
+          },
+        })
+        
+        return {
+          ...restaurant,
+          photoRef: details.photoRef ?? restaurant.photoRef,
+          mapsUrl: details.mapsUrl ?? restaurant.mapsUrl,
+          // hours an admin entered win over the provider's
+          openingHours: restaurant.openingHours ?? details.openingHours ?? null,
+        }
+      } catch (error) {
+        // Show the restaurant without details rather than failing the page
+        console.error(`Error fetching details for place ${restaurant.id}:`, error)
+        return restaurant
+      }
+    })
+  )
+}
+
+// Whether the user may update their own dinner groups ('own') and everyone
+// else's ('any'), the way requireDinnerGroupPermission checks it
+async function getDinnerGroupManageAccess(userId?: string) {
+  if (!userId) return new Set<string>()
+  const permissions = await prisma.permission.findMany({
+    where: {
+      action: 'update',
+      entity: 'dinner-group',
+      roles: { some: { users: { some: { id: userId } } } },
+    },
+    select: { access: true },
+  })
+  return new Set(permissions.map((permission) => permission.access))
+}
+
+async function saveProviderOpeningHours(restaurantId: Restaurant['id'], openingHours: OpeningHours) {
+  const { count } = await prisma.restaurant.updateMany({
+    where: { id: restaurantId, openingHoursEditedAt: null },
+    data: { openingHours: JSON.stringify(openingHours) },
+  })
+  if (count) lruCache.delete('all-restaurants')
+}
+
+/**
+ * Sets a restaurant's opening hours by hand. From then on the provider's hours
+ * no longer replace them.
+ */
+export async function updateRestaurantOpeningHours(
+  restaurantId: Restaurant['id'],
+  openingHours: OpeningHours,
+) {
+  await prisma.restaurant.update({
+    where: { id: restaurantId },
+    data: {
+      openingHours: JSON.stringify(openingHours),
+      openingHoursEditedAt: new Date(),
+    },
+  })
+  lruCache.delete('all-restaurants')
+}
+
+// A heads up for people joining a group at a time the restaurant looks closed,
+// null when it's open or we don't know its hours
+async function getOpeningHoursWarning(dinnerGroupId: string) {
+  const dinnerGroup = await prisma.dinnerGroup.findUnique({
+    where: { id: dinnerGroupId },
+    select: {
+      date: true,
+      reservationTime: true,
+      restaurant: { select: { name: true, openingHours: true } },
+    },
+  })
+  const openingHours = parseOpeningHours(dinnerGroup?.restaurant.openingHours ?? null)
+  if (!dinnerGroup || !openingHours) return null
   
-  // If the user is in a different dinner group, remove them from it
-  if (existingAttendee) {
-    await prisma.attendee.delete({
-      where: { id: existingAttendee.id },
+  const day = getDayOfWeek(dinnerGroup.date)
+  const time = dinnerGroup.reservationTime ?? DEFAULT_DINNER_TIME
+  if (isOpenAt(openingHours, day, time)) return null
+  return `Heads up: ${dinnerGroup.restaurant.name} doesn't look open at ${formatTime(time)} on ${WEEKDAYS[day]}s`
+}
+
+// Restaurant ids come from the page, which may be stale (or made up), so check
+// the restaurant is there before a dinner group points at it
+async function requireRestaurant(restaurantId: Restaurant['id']) {
+  const restaurant = await prisma.restaurant.findUnique({
+    where: { id: restaurantId },
+    select: { id: true },
+  })
+  invariantResponse(restaurant, 'Restaurant not found', { status: 404 })
+  return restaurant
+}
+
+export async function joinDinnerGroup(
+  userId: User['id'],
+  { eventId, date, restaurantId }: DinnerNight & { restaurantId: string },
+) {
+  await requireRestaurant(restaurantId)
+  
+  // Everything happens in one transaction, so the seats are counted again in
+  // case someone else took the last one in the meantime
+  const joined = await prisma.$transaction(async (tx) => {
+    // Get or create a dinner group for the restaurant on that night, whoever
+    // starts a group organizes it
+    const dinnerGroup = await tx.dinnerGroup.upsert({
+      where: { eventId_restaurantId_date: { eventId, restaurantId, date } },
+      update: {},
+      create: { eventId, restaurantId, date, organizerId: userId },
+      select: { id: true, capacity: true, organizerId: true, _count: { select: { attendees: true } } },
     })
     
-    // If this was the last attendee, delete the dinner group
-    const remainingAttendees = await prisma.attendee.count({
-      where: { dinnerGroupId: existingAttendee.dinnerGroupId },
+    // Check if the user is already in a dinner group that night. Doing it in
+    // the transaction is what keeps people to one group a night: two joins at
+    // once can't both see the user without a group and both go through
+    const existingAttendee = await tx.attendee.findFirst({
+      where: { userId, dinnerGroup: { eventId, date } },
+      select: { id: true, dinnerGroupId: true },
     })
     
-    if (remainingAttendees === 0) {
-      await prisma.dinnerGroup.delete({
-        where: { id: existingAttendee.dinnerGroupId },
+    // If the user is already in this dinner group, do nothing
+    if (existingAttendee?.dinnerGroupId === dinnerGroup.id) {
+      return 'already-joined' as const
+    }
+    
+    // Check for space before leaving another group so nobody gives up their
+    // seat for a group they can't get into
+    if (isDinnerGroupFull(dinnerGroup)) {
+      return null
+    }
+    
+    // If the user is in a different dinner group that night, move them out of it
+    if (existingAttendee) {
+      await tx.attendee.delete({ where: { id: existingAttendee.id } })
+    }
+    
+    await tx.attendee.create({
+      data: {
+        userId,
+        dinnerGroupId: dinnerGroup.id,
+      },
+    })
+    // Joining takes the user off every waitlist that night, so a seat opening
+    // up later can't pull them out of the group they picked since
+    await tx.waitlistEntry.deleteMany({ where: { userId, dinnerGroup: { eventId, date } } })
+    // Groups whose organizer deleted their account get a new one
+    if (!dinnerGroup.organizerId) {
+      await tx.dinnerGroup.update({
+        where: { id: dinnerGroup.id },
+        data: { organizerId: userId },
       })
     }
+    
+    // The seat the user gave up goes to the next person on that waitlist
+    const changes = existingAttendee
+      ? await fillOpenSeats(tx, [existingAttendee.dinnerGroupId])
+      : null
+    return { dinnerGroupId: dinnerGroup.id, changes }
+  })
+  
+  if (!joined) {
+    return { status: 'error', error: 'This dinner group is full' } as const
+  }
+  
+  if (joined === 'already-joined') {
+    return { status: 'success', warning: null } as const
   }
   
-  // Get or create a dinner group for the restaurant
-  let dinnerGroup = await prisma.dinnerGroup.findUnique({
-    where: { restaurantId },
+  if (joined.changes) {
+    announceSeatChanges(joined.changes)
+  }
+  
+  // Invalidate the cache for this restaurant's attendance
+  lruCache.delete('all-restaurants')
+  void emitDinnerGroupUpdate({ eventId, date })
+  void notifyDinnerGroupJoined(joined.dinnerGroupId, userId)
+  
+  return {
+    status: 'success',
+    warning: await getOpeningHoursWarning(joined.dinnerGroupId),
+  } as const
+}
+
+function isDinnerGroupFull(
+  dinnerGroup: { capacity: number | null, _count: { attendees: number } } | null,
+) {
+  if (!dinnerGroup?.capacity) return false
+  return dinnerGroup._count.attendees >= dinnerGroup.capacity
+}
+
+/**
+ * Loads a dinner group of the event for one of its management actions, making
+ * sure the user is allowed to manage it: organizers can update their own
+ * group and admins can update any group.
+ */
+export async function requireDinnerGroupPermission(
+  request: Request,
+  userId: User['id'],
+  { eventId, dinnerGroupId }: { eventId: Event['id'], dinnerGroupId: string },
+) {
+  const dinnerGroup = await prisma.dinnerGroup.findFirst({
+    where: { id: dinnerGroupId, eventId },
+    select: { id: true, organizerId: true },
   })
+  invariantResponse(dinnerGroup, 'Dinner group not found', { status: 404 })
   
-  if (!dinnerGroup) {
-    dinnerGroup = await prisma.dinnerGroup.create({
-      data: {
-        restaurantId,
-      },
+  const isOrganizer = dinnerGroup.organizerId === userId
+  await requireUserWithPermission(
+    request,
+    isOrganizer ? 'update:dinner-group:own' : 'update:dinner-group:any',
+  )
+  
+  return dinnerGroup
+}
+
+/**
+ * Sets the reservation time, capacity and notes of a dinner group, letting
+ * the other attendees know about a new time or notes.
+ */
+export async function updateDinnerGroup(
+  dinnerGroupId: string,
+  {
+    reservationTime,
+    capacity,
+    notes,
+  }: { reservationTime: string | null, capacity: number | null, notes: string | null },
+  updatedByUserId: User['id'],
+) {
+  // Seats are counted in the same transaction as the update, so nobody can
+  // join in between and leave the group with more people than seats
+  const updated = await prisma.$transaction(async (tx) => {
+    const attendeeCount = await tx.attendee.count({
+      where: { dinnerGroupId },
+    })
+    if (capacity !== null && capacity < attendeeCount) {
+      return {
+        status: 'error',
+        error: `${attendeeCount} people are already going, so there must be at least that many seats`,
+      } as const
+    }
+    
+    const previous = await tx.dinnerGroup.findUniqueOrThrow({
+      where: { id: dinnerGroupId },
+      select: { reservationTime: true, notes: true },
     })
+    const { eventId, date } = await tx.dinnerGroup.update({
+      where: { id: dinnerGroupId },
+      data: { reservationTime, capacity, notes },
+      select: { eventId: true, date: true },
+    })
+    
+    // More seats may have opened up for people on the waitlist
+    const changes = await fillOpenSeats(tx, [dinnerGroupId])
+    return { status: 'success', previous, eventId, date, changes } as const
+  })
+  
+  if (updated.status === 'error') {
+    return updated
   }
   
-  // Add the user to the dinner group
-  await prisma.attendee.create({
-    data: {
-      userId,
-      dinnerGroupId: dinnerGroup.id,
-    },
-  })
+  const { previous, eventId, date, changes } = updated
+  announceSeatChanges(changes)
+  void emitDinnerGroupUpdate({ eventId, date })
+  void notifyDinnerGroupUpdated(dinnerGroupId, updatedByUserId, previous)
   
-  // Invalidate the cache for this restaurant's attendance
-  lruCache.delete('all-restaurants')
+  return { status: 'success' } as const
 }
 
-export async function leaveDinnerGroup(userId: User['id']) {
-  // Find the user's current dinner group
+/**
+ * Hands the organizer role for a dinner group to another of its attendees.
+ */
+export async function transferDinnerGroupHost(
+  dinnerGroupId: string,
+  newOrganizerId: User['id'],
+) {
   const attendee = await prisma.attendee.findUnique({
-    where: { userId },
-    include: { dinnerGroup: true },
+    where: { userId_dinnerGroupId: { userId: newOrganizerId, dinnerGroupId } },
+    select: { id: true },
   })
   
   if (!attendee) {
-    return
+    return { status: 'error', error: 'Only attendees can host the dinner group' } as const
   }
   
-  // Remove the user from the dinner group
-  await prisma.attendee.delete({
-    where: { id: attendee.id },
+  const { eventId, date } = await prisma.dinnerGroup.update({
+    where: { id: dinnerGroupId },
+    data: { organizerId: newOrganizerId },
+    select: { eventId: true, date: true },
   })
+  void emitDinnerGroupUpdate({ eventId, date })
   
-  // If this was the last attendee, delete the dinner group
-  const remainingAttendees = await prisma.attendee.count({
-    where: { dinnerGroupId: attendee.dinnerGroupId },
+  return { status: 'success' } as const
+}
+
+/**
+ * Removes someone from a dinner group on the organizer's behalf. Their seat
+ * goes to the next person on the waitlist.
+ */
+export async function removeDinnerGroupAttendee(
+  dinnerGroupId: string,
+  attendeeUserId: User['id'],
+) {
+  const dinnerGroup = await prisma.dinnerGroup.findUniqueOrThrow({
+    where: { id: dinnerGroupId },
+    select: { organizerId: true, eventId: true, date: true },
   })
   
-  if (remainingAttendees === 0) {
-    await prisma.dinnerGroup.delete({
-      where: { id: attendee.dinnerGroupId },
+  if (dinnerGroup.organizerId === attendeeUserId) {
+    return { status: 'error', error: 'Hand hosting to someone else before leaving the group' } as const
+  }
+  
+  const changes = await prisma.$transaction(async (tx) => {
+    const { count } = await tx.attendee.deleteMany({
+      where: { userId: attendeeUserId, dinnerGroupId },
     })
+    if (!count) return null
+    return fillOpenSeats(tx, [dinnerGroupId])
+  })
+  
+  if (!changes) {
+    return { status: 'error', error: "They aren't in this dinner group" } as const
   }
   
+  announceSeatChanges(changes)
+  lruCache.delete('all-restaurants')
+  void emitDinnerGroupUpdate({ eventId: dinnerGroup.eventId, date: dinnerGroup.date })
+  
+  return { status: 'success' } as const
+}
+
+export async function leaveDinnerGroup(
+  userId: User['id'],
+  { eventId, date }: DinnerNight,
+) {
+  const changes = await prisma.$transaction(async (tx) => {
+    // Find the user's dinner group for that night
+    const attendee = await tx.attendee.findFirst({
+      where: { userId, dinnerGroup: { eventId, date } },
+      select: { id: true, dinnerGroupId: true },
+    })
+    if (!attendee) return null
+    
+    // Remove the user from the dinner group and give their seat away
+    await tx.attendee.delete({ where: { id: attendee.id } })
+    return fillOpenSeats(tx, [attendee.dinnerGroupId])
+  })
+  
+  if (!changes) {
+    return
+  }
+  
+  announceSeatChanges(changes)
+  
   // Invalidate the cache for this restaurant's attendance
   lruCache.delete('all-restaurants')
-} 
\ No newline at end of file
+  void emitDinnerGroupUpdate({ eventId, date })
+}
+
+/**
+ * Queues the user for a seat in the full dinner group at the restaurant that
+ * night. They're moved into the group as soon as a seat opens up.
+ */
+export async function joinWaitlist(
+  userId: User['id'],
+  { eventId, date, restaurantId }: DinnerNight & { restaurantId: string },
+) {
+  await requireRestaurant(restaurantId)
+  
+  const dinnerGroup = await prisma.dinnerGroup.findUnique({
+    where: { eventId_restaurantId_date: { eventId, restaurantId, date } },
+    include: {
+      _count: { select: { attendees: true } },
+      attendees: { where: { userId }, select: { id: true } },
+    },
+  })
+  
+  if (!dinnerGroup || !isDinnerGroupFull(dinnerGroup)) {
+    return { status: 'error', error: 'This dinner group has seats, join it instead' } as const
+  }
+  
+  if (dinnerGroup.attendees.length) {
+    return { status: 'error', error: "You're already in this dinner group" } as const
+  }
+  
+  await prisma.waitlistEntry.upsert({
+    where: { userId_dinnerGroupId: { userId, dinnerGroupId: dinnerGroup.id } },
+    update: {},
+    create: { userId, dinnerGroupId: dinnerGroup.id },
+  })
+  void emitDinnerGroupUpdate({ eventId, date })
+  
+  return { status: 'success' } as const
+}
+
+export async function leaveWaitlist(
+  userId: User['id'],
+  { eventId, date, restaurantId }: DinnerNight & { restaurantId: string },
+) {
+  await prisma.waitlistEntry.deleteMany({
+    where: { userId, dinnerGroup: { eventId, date, restaurantId } },
+  })
+  void emitDinnerGroupUpdate({ eventId, date })
+}
+
+/**
+ * Sets a restaurant's cuisines and dietary options by hand. From then on the
+ * provider's tags no longer replace them.
+ */
+export async function updateRestaurantTags(
+  restaurantId: Restaurant['id'],
+  { cuisines, dietaryOptions }: { cuisines: Cuisine[], dietaryOptions: DietaryOption[] },
+) {
+  await prisma.restaurant.update({
+    where: { id: restaurantId },
+    data: {
+      cuisines: cuisines.join(','),
+      dietaryOptions: dietaryOptions.join(','),
+      tagsEditedAt: new Date(),
+    },
+  })
+  lruCache.delete('all-restaurants')
+}
+
+export async function favoriteRestaurant(
+  userId: User['id'],
+  restaurantId: Restaurant['id'],
+) {
+  const restaurant = await prisma.restaurant.findUnique({
+    where: { id: restaurantId },
+    select: { id: true },
+  })
+  if (!restaurant) {
+    return { status: 'error', error: 'Restaurant not found' } as const
+  }
+  
+  await prisma.favoriteRestaurant.upsert({
+    where: { userId_restaurantId: { userId, restaurantId } },
+    update: {},
+    create: { userId, restaurantId },
+  })
+  return { status: 'success' } as const
+}
+
+export async function unfavoriteRestaurant(
+  userId: User['id'],
+  restaurantId: Restaurant['id'],
+) {
+  await prisma.favoriteRestaurant.deleteMany({ where: { userId, restaurantId } })
+}
+
+// Who was moved off a waitlist and which groups were deleted while giving
+// seats away, so people can be told once the transaction is saved
+interface SeatChanges {
+  promoted: Array<{
+    userId: User['id']
+    email: string
+    dinnerGroupId: string
+    eventName: string
+    restaurantName: string
+    date: string
+    reservationTime: string | null
+  }>
+  dissolved: Array<{
+    id: string
+    date: string
+    reservationTime: string | null
+    event: { name: string }
+    restaurant: { name: string }
+    waitlistUserIds: Array<User['id']>
+  }>
+}
+
+/**
+ * Gives the open seats of the dinner groups to the people on their waitlists,
+ * first come first served, counting the seats inside the transaction so a
+ * group never goes over capacity. Anyone promoted leaves the group they were
+ * in that night, which is then worked through the same way (from a queue
+ * rather than recursively). Groups with nobody left are deleted, and groups
+ * whose organizer left go to whoever has been in them longest.
+ */
+async function fillOpenSeats(tx: Prisma.TransactionClient, dinnerGroupIds: string[]) {
+  const changes: SeatChanges = { promoted: [], dissolved: [] }
+  const queue = [...dinnerGroupIds]
+  
+  for (let index = 0; index < queue.length; index++) {
+    const dinnerGroupId = queue[index]!
+    const dinnerGroup = await tx.dinnerGroup.findUnique({
+      where: { id: dinnerGroupId },
+      select: {
+        id: true,
+        eventId: true,
+        date: true,
+        reservationTime: true,
+        capacity: true,
+        organizerId: true,
+        event: { select: { name: true } },
+        restaurant: { select: { name: true } },
+        attendees: { orderBy: { createdAt: 'asc' }, select: { userId: true } },
+        waitlist: {
+          orderBy: { createdAt: 'asc' },
+          select: { userId: true, user: { select: { email: true } } },
+        },
+      },
+    })
+    if (!dinnerGroup) continue
+    
+    const { eventId, date } = dinnerGroup
+    const attendeeIds = dinnerGroup.attendees.map(({ userId }) => userId)
+    for (const entry of dinnerGroup.waitlist) {
+      if (dinnerGroup.capacity !== null && attendeeIds.length >= dinnerGroup.capacity) break
+      
+      const currentAttendee = await tx.attendee.findFirst({
+        where: { userId: entry.userId, dinnerGroup: { eventId, date } },
+        select: { id: true, dinnerGroupId: true },
+      })
+      if (currentAttendee) {
+        await tx.attendee.delete({ where: { id: currentAttendee.id } })
+        queue.push(currentAttendee.dinnerGroupId)
+      }
+      await tx.waitlistEntry.deleteMany({
+        where: { userId: entry.userId, dinnerGroup: { eventId, date } },
+      })
+      await tx.attendee.create({ data: { userId: entry.userId, dinnerGroupId } })
+      attendeeIds.push(entry.userId)
+      changes.promoted.push({
+        userId: entry.userId,
+        email: entry.user.email,
+        dinnerGroupId,
+        eventName: dinnerGroup.event.name,
+        restaurantName: dinnerGroup.restaurant.name,
+        date,
+        reservationTime: dinnerGroup.reservationTime,
+      })
+    }
+    
+    if (!attendeeIds.length) {
+      await tx.dinnerGroup.delete({ where: { id: dinnerGroupId } })
+      // Anyone still waiting loses their spot along with the group
+      changes.dissolved.push({
+        ...dinnerGroup,
+        waitlistUserIds: dinnerGroup.waitlist.map(({ userId }) => userId),
+      })
+    } else if (dinnerGroup.organizerId && !attendeeIds.includes(dinnerGroup.organizerId)) {
+      await tx.dinnerGroup.update({
+        where: { id: dinnerGroupId },
+        data: { organizerId: attendeeIds[0] },
+      })
+    }
+  }
+  
+  return changes
+}
+
+/**
+ * Lets the people who got a seat off the waitlist know, by email and like
+ * anyone else joining a group, and the people waiting for a group that was
+ * dissolved.
+ */
+function announceSeatChanges({ promoted, dissolved }: SeatChanges) {
+  for (const { waitlistUserIds, ...dinnerGroup } of dissolved) {
+    void notifyDinnerGroupDissolved(waitlistUserIds, dinnerGroup)
+  }
+  for (const { userId, email, dinnerGroupId, ...dinner } of promoted) {
+    void notifyDinnerGroupJoined(dinnerGroupId, userId)
+    sendWaitlistPromotionEmail({ to: email, ...dinner }).catch((error: unknown) => {
+      console.error(`Error sending waitlist promotion email to ${userId}:`, error)
+    })
+  }
+}
@@ -0,0 +1,169 @@
+import crypto from 'node:crypto'
+import { http, HttpResponse } from 'msw'
+import { afterEach, beforeEach, expect, test, vi } from 'vitest'
+import { server } from '#tests/mocks/index.ts'
+import { isPushServiceEndpoint, sendWebPush } from './web-push.server.ts'
+
+const PUSH_ENDPOINT = 'https://fcm.googleapis.com/fcm/send/abc123'
+
+// keys the browser would create when subscribing
+const browserKeys = crypto.createECDH('prime256v1')
+browserKeys.generateKeys()
+const authSecret = crypto.randomBytes(16)
+const subscription = {
+	endpoint: PUSH_ENDPOINT,
+	p256dh: browserKeys.getPublicKey().toString('base64url'),
+	auth: authSecret.toString('base64url'),
+}
+
+beforeEach(() => {
+	const { privateKey } = crypto.generateKeyPairSync('ec', {
+		namedCurve: 'P-256',
+	})
+	const jwk = privateKey.export({ format: 'jwk' })
+	const publicKey = Buffer.concat([
+		Buffer.from([4]),
+		Buffer.from(jwk.x!, 'base64url'),
+		Buffer.from(jwk.y!, 'base64url'),
+	])
+	vi.stubEnv('VAPID_PUBLIC_KEY', publicKey.toString('base64url'))
+	vi.stubEnv('VAPID_PRIVATE_KEY', jwk.d!)
+})
+
+afterEach(() => {
+	vi.unstubAllEnvs()
+})
+
+function hmac(key: Buffer, data: Buffer) {
+	return crypto.createHmac('sha256', key).update(data).digest()
+}
+
+// what the browser does with an aes128gcm push message (RFC 8291)
+function decrypt(body: Buffer) {
+	const salt = body.subarray(0, 16)
+	const keyLength = body[20]!
+	const serverPublicKey = body.subarray(21, 21 + keyLength)
+	const ciphertext = body.subarray(21 + keyLength, -16)
+	const tag = body.subarray(-16)
+
+	const sharedSecret = browserKeys.computeSecret(serverPublicKey)
+	const keyInfo = Buffer.concat([
+		Buffer.from('WebPush: info\0'),
+		browserKeys.getPublicKey(),
+		serverPublicKey,
+		Buffer.from([1]),
+	])
+	const inputKey = hmac(hmac(authSecret, sharedSecret), keyInfo)
+	const pseudoRandomKey = hmac(salt, inputKey)
+	const contentKey = hmac(
+		pseudoRandomKey,
+		Buffer.from('Content-Encoding: aes128gcm\0\x01'),
+	).subarray(0, 16)
+	const nonce = hmac(
+		pseudoRandomKey,
+		Buffer.from('Content-Encoding: nonce\0\x01'),
+	).subarray(0, 12)
+
+	const decipher = crypto.createDecipheriv('aes-128-gcm', contentKey, nonce)
+	decipher.setAuthTag(tag)
+	const plaintext = Buffer.concat([
+		decipher.update(ciphertext),
+		decipher.final(),
+	])
+	// drop the padding delimiter
+	return plaintext.subarray(0, plaintext.lastIndexOf(2)).toString()
+}
+
+test('sends an encrypted payload the browser can read', async () => {
+	let request: { body: Buffer; headers: Headers } | undefined
+	server.use(
+		http.post(PUSH_ENDPOINT, async ({ request: req }) => {
+			request = {
+				body: Buffer.from(await req.arrayBuffer()),
+				headers: req.headers,
+			}
+			return new HttpResponse(null, { status: 201 })
+		}),
+	)
+
+	const payload = { title: 'Dinner in 30 minutes', body: 'Takashi, 7:30 PM' }
+	const result = await sendWebPush(subscription, payload)
+
+	expect(result).toEqual({ expired: false })
+	expect(request?.headers.get('content-encoding')).toBe('aes128gcm')
+	expect(JSON.parse(decrypt(request!.body))).toEqual(payload)
+})
+
+test('signs a VAPID token for the push service', async () => {
+	let authorization: string | null = null
+	server.use(
+		http.post(PUSH_ENDPOINT, ({ request }) => {
+			authorization = request.headers.get('authorization')
+			return new HttpResponse(null, { status: 201 })
+		}),
+	)
+
+	await sendWebPush(subscription, { title: 'Hi', body: 'There' })
+
+	const [, token, publicKey] =
+		/^vapid t=(\S+), k=(\S+)$/.exec(authorization ?? '') ?? []
+	expect(publicKey).toBe(process.env.VAPID_PUBLIC_KEY)
+	const [header, claims, signature] = token!.split('.')
+	expect(
+		JSON.parse(Buffer.from(claims!, 'base64url').toString()),
+	).toMatchObject({ aud: 'https://fcm.googleapis.com' })
+
+	const publicKeyBytes = Buffer.from(publicKey!, 'base64url')
+	const key = crypto.createPublicKey({
+		format: 'jwk',
+		key: {
+			kty: 'EC',
+			crv: 'P-256',
+			x: publicKeyBytes.subarray(1, 33).toString('base64url'),
+			y: publicKeyBytes.subarray(33, 65).toString('base64url'),
+		},
+	})
+	expect(
+		crypto.verify(
+			'sha256',
+			Buffer.from(`${header}.${claims}`),
+			{ key, dsaEncoding: 'ieee-p1363' },
+			Buffer.from(signature!, 'base64url'),
+		),
+	).toBe(true)
+})
+
+test('reports subscriptions the push service no longer knows about', async () => {
+	server.use(
+		http.post(PUSH_ENDPOINT, () => new HttpResponse(null, { status: 410 })),
+	)
+
+	const result = await sendWebPush(subscription, { title: 'Hi', body: 'There' })
+
+	expect(result).toEqual({ expired: true })
+})
+
+test('only sends to the push services browsers use', async () => {
+	expect(isPushServiceEndpoint(PUSH_ENDPOINT)).toBe(true)
+	expect(
+		isPushServiceEndpoint(
+			'https://updates.push.services.mozilla.com/wpush/v2/a',
+		),
+	).toBe(true)
+	expect(isPushServiceEndpoint('http://fcm.googleapis.com/fcm/send/a')).toBe(
+		false,
+	)
+	expect(isPushServiceEndpoint('https://fcm.googleapis.com.evil.test/a')).toBe(
+		false,
+	)
+	expect(isPushServiceEndpoint('https://169.254.169.254/latest')).toBe(false)
+
+	const fetchSpy = vi.spyOn(globalThis, 'fetch')
+	await expect(
+		sendWebPush(
+			{ ...subscription, endpoint: 'http://localhost:3000/admin' },
+			{ title: 'Hi', body: 'There' },
+		),
+	).rejects.toThrow(/Not a push service endpoint/)
+	expect(fetchSpy).not.toHaveBeenCalled()
+})
@@ -0,0 +1,107 @@
+import webpush from 'web-push'
+
+// Push services keep undelivered messages for at most this long (in seconds)
+const DEFAULT_TTL = 60 * 60 * 4 // 4 hours
+// How long to wait for the push service to take a message
+const PUSH_TIMEOUT_MS = 1000 * 10 // 10 seconds
+
+// The push services browsers subscribe with (Chrome, Firefox, Edge and
+// Safari), including their subdomains. Endpoints come from the browser, so
+// nothing else is ever sent a request.
+const PUSH_SERVICE_HOSTS = [
+	'fcm.googleapis.com',
+	'android.googleapis.com',
+	'push.services.mozilla.com',
+	'notify.windows.com',
+	'push.apple.com',
+]
+
+export type WebPushSubscription = {
+	endpoint: string
+	// the browser's public key and auth secret, base64url encoded
+	p256dh: string
+	auth: string
+}
+
+export type WebPushPayload = {
+	title: string
+	body: string
+	// where clicking the notification takes you
+	url?: string
+}
+
+export function isWebPushConfigured() {
+	return Boolean(process.env.VAPID_PUBLIC_KEY && process.env.VAPID_PRIVATE_KEY)
+}
+
+/**
+ * Whether the endpoint is an https URL of one of the browsers' push services.
+ */
+export function isPushServiceEndpoint(endpoint: string) {
+	try {
+		const { protocol, hostname } = new URL(endpoint)
+		return (
+			protocol === 'https:' &&
+			PUSH_SERVICE_HOSTS.some(
+				(host) => hostname === host || hostname.endsWith(`.${host}`),
+			)
+		)
+	} catch {
+		return false
+	}
+}
+
+/**
+ * Sends a notification to a browser push subscription, encrypted and signed
+ * with our VAPID keys by the web-push library. Returns whether the
+ * subscription has expired, in which case it should be deleted.
+ */
+export async function sendWebPush(
+	subscription: WebPushSubscription,
+	payload: WebPushPayload,
+	{ ttl = DEFAULT_TTL }: { ttl?: number } = {},
+) {
+	if (!isPushServiceEndpoint(subscription.endpoint)) {
+		throw new Error(`Not a push service endpoint: ${subscription.endpoint}`)
+	}
+	const publicKey = process.env.VAPID_PUBLIC_KEY
+	const privateKey = process.env.VAPID_PRIVATE_KEY
+	if (!publicKey || !privateKey) {
+		throw new Error('VAPID_PUBLIC_KEY and VAPID_PRIVATE_KEY are required')
+	}
+
+	// the library only builds the request, so it's sent with fetch like every
+	// other outgoing request (and can time out)
+	const { method, headers, body } = webpush.generateRequestDetails(
+		{
+			endpoint: subscription.endpoint,
+			keys: { p256dh: subscription.p256dh, auth: subscription.auth },
+		},
+		JSON.stringify(payload),
+		{
+			TTL: ttl,
+			vapidDetails: {
+				subject:
+					process.env.VAPID_SUBJECT ?? 'mailto:hello@dinnernotonyourown.com',
+				publicKey,
+				privateKey,
+			},
+		},
+	)
+	const response = await fetch(subscription.endpoint, {
+		method,
+		headers,
+		body,
+		signal: AbortSignal.timeout(PUSH_TIMEOUT_MS),
+	})
+
+	if (response.status === 404 || response.status === 410) {
+		return { expired: true }
+	}
+	if (!response.ok) {
+		throw new Error(
+			`Web push failed with ${response.status}: ${await response.text()}`,
+		)
+	}
+	return { expired: false }
+}
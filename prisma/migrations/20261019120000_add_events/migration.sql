@@ -0,0 +1,46 @@
+/*
+  Warnings:
+
+  - Added the required column `eventId` to the `DinnerGroup` table without a default value. Existing dinner groups are not tied to an event, so they (and their attendees) are cleared.
+
+*/
+-- CreateTable
+CREATE TABLE "Event" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "slug" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "venueName" TEXT NOT NULL,
+    "address" TEXT NOT NULL,
+    "lat" REAL NOT NULL,
+    "lng" REAL NOT NULL,
+    "startDate" DATETIME NOT NULL,
+    "endDate" DATETIME NOT NULL,
+    "timezone" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL
+);
+
+-- DeleteData
+DELETE FROM "Attendee";
+
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_DinnerGroup" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "eventId" TEXT NOT NULL,
+    "restaurantId" TEXT NOT NULL,
+    "notes" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "DinnerGroup_eventId_fkey" FOREIGN KEY ("eventId") REFERENCES "Event" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "DinnerGroup_restaurantId_fkey" FOREIGN KEY ("restaurantId") REFERENCES "Restaurant" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+DROP TABLE "DinnerGroup";
+ALTER TABLE "new_DinnerGroup" RENAME TO "DinnerGroup";
+CREATE INDEX "DinnerGroup_restaurantId_idx" ON "DinnerGroup"("restaurantId");
+CREATE UNIQUE INDEX "DinnerGroup_eventId_restaurantId_key" ON "DinnerGroup"("eventId", "restaurantId");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Event_slug_key" ON "Event"("slug");
@@ -0,0 +1,34 @@
+/*
+  Warnings:
+
+  - Added the required column `date` to the `DinnerGroup` table without a default value. Existing dinner groups are assigned the (UTC) day they were created on.
+  - A unique constraint covering the columns `[userId,dinnerGroupId]` on the table `Attendee` replaces the unique constraint on `[userId]`, so users can attend one dinner group per night.
+
+*/
+-- DropIndex
+DROP INDEX "Attendee_userId_key";
+
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_DinnerGroup" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "eventId" TEXT NOT NULL,
+    "restaurantId" TEXT NOT NULL,
+    "date" TEXT NOT NULL,
+    "notes" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "DinnerGroup_eventId_fkey" FOREIGN KEY ("eventId") REFERENCES "Event" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "DinnerGroup_restaurantId_fkey" FOREIGN KEY ("restaurantId") REFERENCES "Restaurant" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+INSERT INTO "new_DinnerGroup" ("createdAt", "eventId", "id", "notes", "restaurantId", "date") SELECT "createdAt", "eventId", "id", "notes", "restaurantId", strftime('%Y-%m-%d', "createdAt" / 1000, 'unixepoch') FROM "DinnerGroup";
+DROP TABLE "DinnerGroup";
+ALTER TABLE "new_DinnerGroup" RENAME TO "DinnerGroup";
+CREATE INDEX "DinnerGroup_eventId_date_idx" ON "DinnerGroup"("eventId", "date");
+CREATE INDEX "DinnerGroup_restaurantId_idx" ON "DinnerGroup"("restaurantId");
+CREATE UNIQUE INDEX "DinnerGroup_eventId_restaurantId_date_key" ON "DinnerGroup"("eventId", "restaurantId", "date");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Attendee_userId_dinnerGroupId_key" ON "Attendee"("userId", "dinnerGroupId");
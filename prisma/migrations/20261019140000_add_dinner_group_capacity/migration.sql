@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "DinnerGroup" ADD COLUMN "capacity" INTEGER;
+ALTER TABLE "DinnerGroup" ADD COLUMN "reservationTime" TEXT;
@@ -0,0 +1,15 @@
+-- CreateTable
+CREATE TABLE "WaitlistEntry" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "userId" TEXT NOT NULL,
+    "dinnerGroupId" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "WaitlistEntry_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "WaitlistEntry_dinnerGroupId_fkey" FOREIGN KEY ("dinnerGroupId") REFERENCES "DinnerGroup" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "WaitlistEntry_dinnerGroupId_createdAt_idx" ON "WaitlistEntry"("dinnerGroupId", "createdAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "WaitlistEntry_userId_dinnerGroupId_key" ON "WaitlistEntry"("userId", "dinnerGroupId");
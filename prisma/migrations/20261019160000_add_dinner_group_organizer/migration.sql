@@ -0,0 +1,39 @@
+/*
+  Warnings:
+
+  - Existing dinner groups are organized by whoever joined them first.
+
+*/
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_DinnerGroup" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "eventId" TEXT NOT NULL,
+    "restaurantId" TEXT NOT NULL,
+    "date" TEXT NOT NULL,
+    "reservationTime" TEXT,
+    "capacity" INTEGER,
+    "notes" TEXT,
+    "organizerId" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "DinnerGroup_eventId_fkey" FOREIGN KEY ("eventId") REFERENCES "Event" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "DinnerGroup_restaurantId_fkey" FOREIGN KEY ("restaurantId") REFERENCES "Restaurant" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "DinnerGroup_organizerId_fkey" FOREIGN KEY ("organizerId") REFERENCES "User" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+INSERT INTO "new_DinnerGroup" ("capacity", "createdAt", "date", "eventId", "id", "notes", "organizerId", "reservationTime", "restaurantId") SELECT "capacity", "createdAt", "date", "eventId", "id", "notes", (SELECT "userId" FROM "Attendee" WHERE "Attendee"."dinnerGroupId" = "DinnerGroup"."id" ORDER BY "Attendee"."createdAt" ASC LIMIT 1), "reservationTime", "restaurantId" FROM "DinnerGroup";
+DROP TABLE "DinnerGroup";
+ALTER TABLE "new_DinnerGroup" RENAME TO "DinnerGroup";
+CREATE INDEX "DinnerGroup_eventId_date_idx" ON "DinnerGroup"("eventId", "date");
+CREATE INDEX "DinnerGroup_restaurantId_idx" ON "DinnerGroup"("restaurantId");
+CREATE INDEX "DinnerGroup_organizerId_idx" ON "DinnerGroup"("organizerId");
+CREATE UNIQUE INDEX "DinnerGroup_eventId_restaurantId_date_key" ON "DinnerGroup"("eventId", "restaurantId", "date");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
+
+-- Dinner group organizers can update their own groups and admins can update any
+INSERT INTO Permission VALUES('cmgxdg0rg0000pcou8k1d4n2h','update','dinner-group','own','',1760875200000,1760875200000);
+INSERT INTO Permission VALUES('cmgxdg0rh0001pcoufq7w3m5v','update','dinner-group','any','',1760875200000,1760875200000);
+
+INSERT INTO _PermissionToRole VALUES('cmgxdg0rh0001pcoufq7w3m5v','clnf2zvlw000gpcour6dyyuh6');
+INSERT INTO _PermissionToRole VALUES('cmgxdg0rg0000pcou8k1d4n2h','clnf2zvlx000hpcou5dfrbegs');
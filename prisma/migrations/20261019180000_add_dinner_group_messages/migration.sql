@@ -0,0 +1,19 @@
+-- AlterTable
+ALTER TABLE "Attendee" ADD COLUMN "messagesReadAt" DATETIME;
+
+-- CreateTable
+CREATE TABLE "DinnerGroupMessage" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "content" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "dinnerGroupId" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "DinnerGroupMessage_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "DinnerGroupMessage_dinnerGroupId_fkey" FOREIGN KEY ("dinnerGroupId") REFERENCES "DinnerGroup" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "DinnerGroupMessage_dinnerGroupId_createdAt_idx" ON "DinnerGroupMessage"("dinnerGroupId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "DinnerGroupMessage_userId_idx" ON "DinnerGroupMessage"("userId");
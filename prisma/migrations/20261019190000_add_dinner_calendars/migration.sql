@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "Restaurant" ADD COLUMN "address" TEXT;
+
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN "calendarFeedToken" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "User_calendarFeedToken_key" ON "User"("calendarFeedToken");
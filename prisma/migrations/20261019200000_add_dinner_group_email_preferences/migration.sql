@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN "emailOnDinnerGroupJoin" BOOLEAN NOT NULL DEFAULT false;
+ALTER TABLE "User" ADD COLUMN "emailOnDinnerGroupUpdate" BOOLEAN NOT NULL DEFAULT false;
+ALTER TABLE "User" ADD COLUMN "emailOnDinnerGroupDissolved" BOOLEAN NOT NULL DEFAULT false;
+ALTER TABLE "User" ADD COLUMN "emailDinnerDigest" BOOLEAN NOT NULL DEFAULT false;
+ALTER TABLE "User" ADD COLUMN "dinnerDigestSentOn" TEXT;
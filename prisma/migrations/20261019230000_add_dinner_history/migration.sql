@@ -0,0 +1,37 @@
+-- CreateTable
+CREATE TABLE "DinnerHistory" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "dinnerGroupId" TEXT NOT NULL,
+    "eventId" TEXT NOT NULL,
+    "restaurantId" TEXT NOT NULL,
+    "date" TEXT NOT NULL,
+    "reservationTime" TEXT,
+    "archivedAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "DinnerHistory_eventId_fkey" FOREIGN KEY ("eventId") REFERENCES "Event" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "DinnerHistory_restaurantId_fkey" FOREIGN KEY ("restaurantId") REFERENCES "Restaurant" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "DinnerHistoryAttendee" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "dinnerHistoryId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "joinedAt" DATETIME NOT NULL,
+    CONSTRAINT "DinnerHistoryAttendee_dinnerHistoryId_fkey" FOREIGN KEY ("dinnerHistoryId") REFERENCES "DinnerHistory" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "DinnerHistoryAttendee_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "DinnerHistory_dinnerGroupId_key" ON "DinnerHistory"("dinnerGroupId");
+
+-- CreateIndex
+CREATE INDEX "DinnerHistory_eventId_date_idx" ON "DinnerHistory"("eventId", "date");
+
+-- CreateIndex
+CREATE INDEX "DinnerHistory_restaurantId_idx" ON "DinnerHistory"("restaurantId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "DinnerHistoryAttendee_dinnerHistoryId_userId_key" ON "DinnerHistoryAttendee"("dinnerHistoryId", "userId");
+
+-- CreateIndex
+CREATE INDEX "DinnerHistoryAttendee_userId_idx" ON "DinnerHistoryAttendee"("userId");
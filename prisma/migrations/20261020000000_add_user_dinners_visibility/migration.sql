@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN "dinnersVisibility" TEXT NOT NULL DEFAULT 'signed-in';
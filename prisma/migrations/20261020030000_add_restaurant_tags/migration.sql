@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "Restaurant" ADD COLUMN "cuisines" TEXT NOT NULL DEFAULT '';
+ALTER TABLE "Restaurant" ADD COLUMN "dietaryOptions" TEXT NOT NULL DEFAULT '';
+ALTER TABLE "Restaurant" ADD COLUMN "tagsEditedAt" DATETIME;
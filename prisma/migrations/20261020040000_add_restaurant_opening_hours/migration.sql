@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "Restaurant" ADD COLUMN "openingHours" TEXT;
+ALTER TABLE "Restaurant" ADD COLUMN "openingHoursEditedAt" DATETIME;
@@ -0,0 +1,34 @@
+/*
+  Warnings:
+
+  - New users' dinners are hidden from their profile until they choose otherwise.
+  - Existing users who hide their name in dinner groups have their dinners hidden too.
+
+*/
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_User" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "email" TEXT NOT NULL,
+    "username" TEXT NOT NULL,
+    "name" TEXT,
+    "hideNameInDinners" BOOLEAN NOT NULL DEFAULT false,
+    "dinnersVisibility" TEXT NOT NULL DEFAULT 'nobody',
+    "calendarFeedToken" TEXT,
+    "emailOnDinnerGroupJoin" BOOLEAN NOT NULL DEFAULT false,
+    "emailOnDinnerGroupUpdate" BOOLEAN NOT NULL DEFAULT false,
+    "emailOnDinnerGroupDissolved" BOOLEAN NOT NULL DEFAULT false,
+    "emailDinnerDigest" BOOLEAN NOT NULL DEFAULT false,
+    "dinnerDigestSentOn" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL
+);
+INSERT INTO "new_User" ("calendarFeedToken", "createdAt", "dinnerDigestSentOn", "dinnersVisibility", "email", "emailDinnerDigest", "emailOnDinnerGroupDissolved", "emailOnDinnerGroupJoin", "emailOnDinnerGroupUpdate", "hideNameInDinners", "id", "name", "updatedAt", "username") SELECT "calendarFeedToken", "createdAt", "dinnerDigestSentOn", CASE WHEN "hideNameInDinners" THEN 'nobody' ELSE "dinnersVisibility" END, "email", "emailDinnerDigest", "emailOnDinnerGroupDissolved", "emailOnDinnerGroupJoin", "emailOnDinnerGroupUpdate", "hideNameInDinners", "id", "name", "updatedAt", "username" FROM "User";
+DROP TABLE "User";
+ALTER TABLE "new_User" RENAME TO "User";
+CREATE UNIQUE INDEX "User_email_key" ON "User"("email");
+CREATE UNIQUE INDEX "User_username_key" ON "User"("username");
+CREATE UNIQUE INDEX "User_calendarFeedToken_key" ON "User"("calendarFeedToken");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
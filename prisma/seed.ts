@@ -244,6 +244,27 @@ async function seed() {
 
 	console.timeEnd(`🐨 Created admin user "kody"`)
 
+	console.time(`📅 Created event`)
+	// event dates are calendar dates stored as midnight UTC
+	const eventStartDate = new Date()
+	eventStartDate.setUTCHours(0, 0, 0, 0)
+	const eventEndDate = new Date(eventStartDate)
+	eventEndDate.setUTCDate(eventEndDate.getUTCDate() + 3)
+	await prisma.event.create({
+		data: {
+			slug: 'salt-lake-city',
+			name: 'Salt Lake City Conference',
+			venueName: 'Hilton Salt Lake City Center',
+			address: '255 S West Temple, Salt Lake City, UT 84101',
+			lat: 40.7596,
+			lng: -111.8867,
+			startDate: eventStartDate,
+			endDate: eventEndDate,
+			timezone: 'America/Denver',
+		},
+	})
+	console.timeEnd(`📅 Created event`)
+
 	console.timeEnd(`🌱 Database has been seeded`)
 }
 
@@ -0,0 +1,26 @@
+// Shows the dinner notifications sent by app/utils/web-push.server.ts
+
+self.addEventListener('push', (event) => {
+	if (!event.data) return
+	const { title, body, url } = event.data.json()
+	event.waitUntil(
+		self.registration.showNotification(title, {
+			body,
+			icon: '/favicons/android-chrome-192x192.png',
+			data: { url: url ?? '/' },
+		}),
+	)
+})
+
+self.addEventListener('notificationclick', (event) => {
+	event.notification.close()
+	const url = new URL(event.notification.data.url, self.location.origin).href
+	event.waitUntil(
+		self.clients
+			.matchAll({ type: 'window', includeUncontrolled: true })
+			.then((windowClients) => {
+				const existing = windowClients.find((client) => client.url === url)
+				return existing ? existing.focus() : self.clients.openWindow(url)
+			}),
+	)
+})
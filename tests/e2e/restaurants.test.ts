@@ -0,0 +1,411 @@
+import { faker } from '@faker-js/faker'
+import { prisma } from '#app/utils/db.server.ts'
+import { expect, test } from '#tests/playwright-utils.ts'
+
+async function createEvent() {
+	const today = new Date(new Date().toISOString().slice(0, 10))
+	const tomorrow = new Date(today)
+	tomorrow.setUTCDate(today.getUTCDate() + 1)
+	return prisma.event.create({
+		select: { id: true, slug: true },
+		data: {
+			slug: `e2e-${faker.string.alphanumeric({ length: 10, casing: 'lower' })}`,
+			name: 'E2E Conference',
+			venueName: 'Hilton Salt Lake City Center',
+			address: '255 S West Temple, Salt Lake City, UT 84101',
+			lat: 40.7596,
+			lng: -111.8867,
+			startDate: today,
+			endDate: tomorrow,
+			timezone: 'UTC',
+		},
+	})
+}
+
+test('Users can join and leave a dinner group', async ({ page, login }) => {
+	const event = await createEvent()
+	try {
+		await login()
+		await page.goto(`/events/${event.slug}/restaurants`)
+
+		const dinnerPlans = page
+			.locator('section')
+			.filter({ has: page.getByRole('heading', { name: /dinner plans/i }) })
+		await expect(
+			dinnerPlans.getByText(/everyone is having dinner on their own/i),
+		).toBeVisible()
+
+		const restaurantCard = page
+			.locator('div')
+			.filter({ has: page.getByRole('heading', { name: 'Beehive Bistro' }) })
+			.filter({ has: page.getByRole('button', { name: /^join$/i }) })
+			.last()
+		await restaurantCard.getByRole('button', { name: /^join$/i }).click()
+
+		await expect(
+			dinnerPlans.getByRole('heading', { name: 'Beehive Bistro' }),
+		).toBeVisible()
+		await expect(dinnerPlans.getByText('1 attending')).toBeVisible()
+
+		await dinnerPlans.getByRole('button', { name: /^leave$/i }).click()
+
+		await expect(
+			dinnerPlans.getByText(/everyone is having dinner on their own/i),
+		).toBeVisible()
+		expect(
+			await prisma.dinnerGroup.count({ where: { eventId: event.id } }),
+		).toBe(0)
+	} finally {
+		await prisma.event.delete({ where: { id: event.id } }).catch(() => {})
+	}
+})
+
+test('Restaurant photos are served through the photo resource route', async ({
+	page,
+	login,
+}) => {
+	const event = await createEvent()
+	try {
+		await login()
+		await page.goto(`/events/${event.slug}/restaurants`)
+
+		const photo = page.getByRole('img', { name: 'Beehive Bistro' }).first()
+		await expect(photo).toBeVisible()
+		const src = await photo.getAttribute('src')
+		expect(src).toContain('/resources/maps/photo')
+
+		const response = await page.request.get(src!)
+		expect(response.ok()).toBe(true)
+		expect(response.headers()['content-type']).toBe('image/png')
+	} finally {
+		await prisma.event.delete({ where: { id: event.id } }).catch(() => {})
+	}
+})
+
+test('Dinner group pages list who is going and respect hidden names', async ({
+	page,
+	login,
+	insertNewUser,
+}) => {
+	const event = await createEvent()
+	try {
+		const user = await login()
+		const visibleGuest = await insertNewUser()
+		const hiddenGuest = await insertNewUser()
+		await prisma.user.update({
+			where: { id: hiddenGuest.id },
+			data: { hideNameInDinners: true },
+		})
+		const restaurant = await prisma.restaurant.upsert({
+			where: { id: 'e2e-dinner-group-restaurant' },
+			update: {},
+			create: {
+				id: 'e2e-dinner-group-restaurant',
+				name: 'E2E Eatery',
+				lat: 40.76,
+				lng: -111.887,
+			},
+		})
+		const dinnerGroup = await prisma.dinnerGroup.create({
+			data: {
+				eventId: event.id,
+				restaurantId: restaurant.id,
+				date: new Date().toISOString().slice(0, 10),
+				notes: 'Meet in the lobby at 6:30',
+				organizerId: visibleGuest.id,
+				attendees: {
+					create: [{ userId: visibleGuest.id }, { userId: hiddenGuest.id }],
+				},
+			},
+		})
+
+		await page.goto(`/dinners/${dinnerGroup.id}`)
+		await expect(
+			page.getByRole('heading', { name: 'E2E Eatery' }),
+		).toBeVisible()
+		await expect(page.getByText('Meet in the lobby at 6:30')).toBeVisible()
+		await expect(
+			page.getByRole('link', { name: new RegExp(visibleGuest.name!) }),
+		).toHaveAttribute('href', `/users/${visibleGuest.username}`)
+		await expect(page.getByText(/private attendee/i)).toBeVisible()
+		await expect(page.getByText(hiddenGuest.username)).not.toBeVisible()
+
+		await page.getByRole('button', { name: /^join$/i }).click()
+		await expect(
+			page.getByRole('link', { name: new RegExp(user.name!) }),
+		).toBeVisible()
+	} finally {
+		await prisma.event.delete({ where: { id: event.id } }).catch(() => {})
+	}
+})
+
+test('Attendees can chat in their dinner group', async ({
+	page,
+	login,
+	insertNewUser,
+}) => {
+	const event = await createEvent()
+	try {
+		const user = await login()
+		const guest = await insertNewUser()
+		const restaurant = await prisma.restaurant.upsert({
+			where: { id: 'e2e-dinner-group-restaurant' },
+			update: {},
+			create: {
+				id: 'e2e-dinner-group-restaurant',
+				name: 'E2E Eatery',
+				lat: 40.76,
+				lng: -111.887,
+			},
+		})
+		const dinnerGroup = await prisma.dinnerGroup.create({
+			data: {
+				eventId: event.id,
+				restaurantId: restaurant.id,
+				date: new Date().toISOString().slice(0, 10),
+				organizerId: guest.id,
+				attendees: {
+					create: [{ userId: guest.id }, { userId: user.id }],
+				},
+			},
+		})
+		await prisma.dinnerGroupMessage.create({
+			data: {
+				dinnerGroupId: dinnerGroup.id,
+				userId: guest.id,
+				content: 'Running 10 minutes late',
+			},
+		})
+
+		await page.goto('/')
+		await expect(page.getByLabel('1 unread messages')).toBeVisible()
+
+		await page.goto(`/dinners/${dinnerGroup.id}`)
+		await expect(page.getByText('Running 10 minutes late')).toBeVisible()
+		await page.getByRole('textbox', { name: /message/i }).fill('No worries!')
+		await page.getByRole('button', { name: /send/i }).click()
+		await expect(page.getByText('No worries!')).toBeVisible()
+		await expect(page.getByLabel(/unread messages/)).not.toBeVisible()
+
+		await prisma.dinnerGroup.delete({ where: { id: dinnerGroup.id } })
+		expect(
+			await prisma.dinnerGroupMessage.count({
+				where: { dinnerGroupId: dinnerGroup.id },
+			}),
+		).toBe(0)
+	} finally {
+		await prisma.event.delete({ where: { id: event.id } }).catch(() => {})
+	}
+})
+
+test('Users can save restaurants and filter down to them', async ({
+	page,
+	login,
+}) => {
+	const event = await createEvent()
+	try {
+		const user = await login()
+		await page.goto(`/events/${event.slug}/restaurants`)
+
+		await page
+			.getByRole('button', { name: 'Save Beehive Bistro' })
+			.first()
+			.click()
+		await expect(
+			page.getByRole('button', { name: 'Unsave Beehive Bistro' }).first(),
+		).toHaveAttribute('aria-pressed', 'true')
+
+		await page.getByRole('radio', { name: /saved only/i }).click()
+		await expect(page).toHaveURL(/saved=1/)
+		const nearby = page
+			.locator('section')
+			.filter({
+				has: page.getByRole('heading', { name: /restaurants nearby/i }),
+			})
+		await expect(
+			nearby.getByRole('button', { name: 'Unsave Beehive Bistro' }),
+		).toBeVisible()
+		await expect(nearby.getByRole('button', { name: /^save /i })).toHaveCount(0)
+		expect(
+			await prisma.favoriteRestaurant.count({ where: { userId: user.id } }),
+		).toBe(1)
+	} finally {
+		await prisma.event.delete({ where: { id: event.id } }).catch(() => {})
+	}
+})
+
+test('The map shows the venue, restaurants and dinner groups', async ({
+	page,
+	login,
+	insertNewUser,
+}) => {
+	const event = await createEvent()
+	try {
+		await login()
+		const guest = await insertNewUser()
+		const restaurant = await prisma.restaurant.upsert({
+			where: { id: 'e2e-dinner-group-restaurant' },
+			update: {},
+			create: {
+				id: 'e2e-dinner-group-restaurant',
+				name: 'E2E Eatery',
+				lat: 40.76,
+				lng: -111.887,
+			},
+		})
+		await prisma.dinnerGroup.create({
+			data: {
+				eventId: event.id,
+				restaurantId: restaurant.id,
+				date: new Date().toISOString().slice(0, 10),
+				attendees: { create: [{ userId: guest.id }] },
+			},
+		})
+		// stand in for the tile server
+		const tileRequests: Array<string> = []
+		await page.route(/\/\d+\/\d+\/\d+\.png$/, (route) => {
+			tileRequests.push(route.request().url())
+			return route.fulfill({ status: 200, contentType: 'image/png', body: '' })
+		})
+
+		await page.goto(`/events/${event.slug}/restaurants`)
+		await page.getByRole('radio', { name: 'Map' }).click()
+		await expect(page).toHaveURL(/view=map/)
+
+		const map = page.getByRole('region', {
+			name: 'Map of restaurants near Hilton Salt Lake City Center',
+		})
+		await expect(map).toBeVisible()
+		await expect(map.getByText('1 mi')).toBeVisible()
+		await expect(
+			map.getByRole('button', { name: 'Beehive Bistro' }).first(),
+		).toBeVisible()
+		expect(tileRequests.length).toBeGreaterThan(0)
+
+		await map.getByRole('button', { name: 'E2E Eatery, 1 attending' }).click()
+		await expect(page).toHaveURL(/selected=e2e-dinner-group-restaurant/)
+		await expect(
+			page.getByRole('heading', { name: 'E2E Eatery' }),
+		).toBeVisible()
+		await expect(page.getByText('1 attending')).toBeVisible()
+	} finally {
+		await prisma.event.delete({ where: { id: event.id } }).catch(() => {})
+	}
+})
+
+test('Users can filter restaurants by cuisine and dietary options', async ({
+	page,
+	login,
+}) => {
+	const event = await createEvent()
+	try {
+		await login()
+		await page.goto(`/events/${event.slug}/restaurants?distance=10`)
+
+		const nearby = page.locator('section').filter({
+			has: page.getByRole('heading', { name: /restaurants nearby/i }),
+		})
+		await nearby.getByRole('button', { name: 'Sushi', exact: true }).click()
+		await expect(page).toHaveURL(/cuisine=sushi/)
+		await expect(
+			nearby.getByRole('heading', { name: 'Saltair Sushi' }),
+		).toBeVisible()
+		await expect(
+			nearby.getByRole('heading', { name: 'Beehive Bistro' }),
+		).not.toBeVisible()
+
+		await nearby.getByRole('button', { name: 'Thai', exact: true }).click()
+		await expect(
+			nearby.getByRole('heading', { name: 'Jordan River Thai' }),
+		).toBeVisible()
+		await nearby.getByRole('button', { name: 'Vegan', exact: true }).click()
+		await expect(page).toHaveURL(/dietary=vegan/)
+		await expect(
+			nearby.getByRole('heading', { name: 'Saltair Sushi' }),
+		).not.toBeVisible()
+	} finally {
+		await prisma.event.delete({ where: { id: event.id } }).catch(() => {})
+	}
+})
+
+test('Users can sort nearby restaurants and show more of them', async ({
+	page,
+	login,
+}) => {
+	const event = await createEvent()
+	try {
+		await login()
+		await page.goto(`/events/${event.slug}/restaurants?distance=10`)
+
+		const nearby = page.locator('section').filter({
+			has: page.getByRole('heading', { name: /restaurants nearby/i }),
+		})
+		// the filters have headings too, so look for the cards' in the grid
+		const firstRestaurant = nearby.locator('.grid h3').first()
+		await nearby.getByLabel('Sort by').selectOption('name')
+		await expect(page).toHaveURL(/sort=name/)
+		await expect(firstRestaurant).toHaveText('Alta Alpine Kitchen')
+		await expect(nearby.getByText('Showing 15 of 24 restaurants')).toBeVisible()
+		await expect(
+			nearby.getByRole('heading', { name: 'Wasatch Noodle House' }),
+		).not.toBeVisible()
+
+		await nearby.getByRole('link', { name: 'Show more' }).click()
+		await expect(page).toHaveURL(/page=2/)
+		await expect(
+			nearby.getByRole('heading', { name: 'Wasatch Noodle House' }),
+		).toBeVisible()
+		await expect(
+			nearby.getByRole('link', { name: 'Show more' }),
+		).not.toBeVisible()
+
+		// picking another order starts over from the first page
+		await nearby.getByLabel('Sort by').selectOption('distance')
+		await expect(page).not.toHaveURL(/page=/)
+		await expect(firstRestaurant).toHaveText('Beehive Bistro')
+	} finally {
+		await prisma.event.delete({ where: { id: event.id } }).catch(() => {})
+	}
+})
+
+test('Users can filter restaurants by a price range', async ({
+	page,
+	login,
+}) => {
+	const event = await createEvent()
+	try {
+		await login()
+		await page.goto(`/events/${event.slug}/restaurants?distance=10`)
+
+		const nearby = page.locator('section').filter({
+			has: page.getByRole('heading', { name: /restaurants nearby/i }),
+		})
+		await nearby.getByRole('radio', { name: 'From $$', exact: true }).click()
+		await nearby.getByRole('radio', { name: 'To $$$', exact: true }).click()
+		await expect(page).toHaveURL(/minPrice=2&maxPrice=3/)
+		await expect(
+			nearby.getByRole('heading', { name: 'Beehive Bistro' }),
+		).toBeVisible()
+		await expect(
+			nearby.getByRole('heading', { name: 'Saltair Sushi' }),
+		).toBeVisible()
+		await expect(
+			nearby.getByRole('heading', { name: 'Wasatch Noodle House' }),
+		).not.toBeVisible()
+		// restaurants without a price level are kept unless asked otherwise
+		await expect(
+			nearby.getByRole('heading', { name: 'Antelope Island Eats' }),
+		).toBeVisible()
+
+		await nearby.getByRole('radio', { name: 'Include unknown price' }).click()
+		await expect(page).toHaveURL(/unknownPrice=0/)
+		await expect(
+			nearby.getByRole('heading', { name: 'Antelope Island Eats' }),
+		).not.toBeVisible()
+		await expect(
+			nearby.getByRole('heading', { name: 'Beehive Bistro' }),
+		).toBeVisible()
+	} finally {
+		await prisma.event.delete({ where: { id: event.id } }).catch(() => {})
+	}
+})
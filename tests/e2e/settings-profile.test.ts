@@ -113,3 +113,33 @@ test('Users can change their email address', async ({ page, login }) => {
 	})
 	expect(noticeEmail.subject).toContain('changed')
 })
+
+test('Users can choose which dinner group emails they get', async ({
+	page,
+	login,
+}) => {
+	const user = await login()
+	await page.goto('/settings/profile')
+
+	await page
+		.getByRole('checkbox', { name: /someone joins my dinner group/i })
+		.click()
+	await page.getByRole('checkbox', { name: /afternoon digest/i }).click()
+	await page.getByRole('button', { name: /update email settings/i }).click()
+
+	await expect(async () => {
+		const preferences = await prisma.user.findUniqueOrThrow({
+			where: { id: user.id },
+			select: {
+				emailOnDinnerGroupJoin: true,
+				emailOnDinnerGroupUpdate: true,
+				emailDinnerDigest: true,
+			},
+		})
+		expect(preferences).toEqual({
+			emailOnDinnerGroupJoin: true,
+			emailOnDinnerGroupUpdate: false,
+			emailDinnerDigest: true,
+		})
+	}).toPass()
+})
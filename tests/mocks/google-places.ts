@@ -0,0 +1,230 @@
+import fs from 'node:fs/promises'
+import path from 'node:path'
+import { fileURLToPath } from 'node:url'
+import { HttpResponse, passthrough, http, type HttpHandler } from 'msw'
+import { calculateDistance, MILES_TO_METERS } from '#app/utils/geo.ts'
+
+const { json } = HttpResponse
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url))
+const FIXTURES_DIR = path.join(__dirname, '..', 'fixtures')
+const PLACES_FIXTURE_PATH = path.join(
+	FIXTURES_DIR,
+	'restaurants',
+	'salt-lake-city.geojson',
+)
+const PHOTOS_DIR = path.join(FIXTURES_DIR, 'images', 'kody-notes')
+
+// Google returns at most 20 results per page of a nearby search
+const PAGE_SIZE = 20
+// next_page_tokens aren't valid until a short time after they're issued
+export const NEXT_PAGE_TOKEN_DELAY = 2000
+
+const passthroughGooglePlaces =
+	!process.env.GOOGLE_PLACES_API_KEY?.startsWith('MOCK_') &&
+	process.env.NODE_ENV !== 'test'
+
+type MockPlace = {
+	place_id: string
+	name: string
+	price_level?: number
+	rating?: number
+	user_ratings_total?: number
+	geometry: { location: { lat: number; lng: number } }
+	vicinity: string
+	photoReference: string
+	openingHours?: FixtureFeature['properties']['openingHours']
+}
+
+type PageToken = {
+	lat: number
+	lng: number
+	radius: number
+	offset: number
+	issuedAt: number
+}
+
+type FixtureFeature = {
+	geometry: { coordinates: [number, number] }
+	properties: {
+		id: string
+		name: string
+		priceLevel?: number
+		rating?: number
+		address: string
+		openingHours?: Array<{
+			open: { day: number; time: string }
+			close: { day: number; time: string } | null
+		}>
+	}
+}
+
+async function getMockPlaces(): Promise<Array<MockPlace>> {
+	const fixture = JSON.parse(
+		await fs.readFile(PLACES_FIXTURE_PATH, 'utf-8'),
+	) as { features: Array<FixtureFeature> }
+	return fixture.features.map(({ geometry, properties }, index) => ({
+		place_id: properties.id,
+		name: properties.name,
+		price_level: properties.priceLevel,
+		rating: properties.rating,
+		user_ratings_total: properties.rating ? 40 + index * 17 : undefined,
+		geometry: {
+			location: { lat: geometry.coordinates[1], lng: geometry.coordinates[0] },
+		},
+		vicinity: properties.address,
+		photoReference: `MOCK_PHOTO_${properties.id}`,
+		openingHours: properties.openingHours,
+	}))
+}
+
+function encodePageToken(token: PageToken) {
+	return Buffer.from(JSON.stringify(token)).toString('base64url')
+}
+
+function decodePageToken(pageToken: string): PageToken | null {
+	try {
+		return JSON.parse(
+			Buffer.from(pageToken, 'base64url').toString(),
+		) as PageToken
+	} catch {
+		return null
+	}
+}
+
+function hasValidKey(url: URL) {
+	return Boolean(url.searchParams.get('key'))
+}
+
+export const handlers: Array<HttpHandler> = [
+	http.get(
+		'https://maps.googleapis.com/maps/api/place/nearbysearch/json',
+		async ({ request }) => {
+			if (passthroughGooglePlaces) return passthrough()
+			const url = new URL(request.url)
+			if (!hasValidKey(url)) {
+				return json({ results: [], status: 'REQUEST_DENIED' })
+			}
+
+			let search: Omit<PageToken, 'issuedAt'>
+			const pageToken = url.searchParams.get('pagetoken')
+			if (pageToken) {
+				const token = decodePageToken(pageToken)
+				if (!token || Date.now() - token.issuedAt < NEXT_PAGE_TOKEN_DELAY) {
+					return json({ results: [], status: 'INVALID_REQUEST' })
+				}
+				search = token
+			} else {
+				const [lat, lng] = (url.searchParams.get('location') ?? '')
+					.split(',')
+					.map(Number)
+				const radius = Number(url.searchParams.get('radius'))
+				if (!Number.isFinite(lat) || !Number.isFinite(lng) || !radius) {
+					return json({ results: [], status: 'INVALID_REQUEST' })
+				}
+				search = { lat: lat!, lng: lng!, radius, offset: 0 }
+			}
+
+			const places = (await getMockPlaces()).filter(
+				(place) =>
+					calculateDistance(
+						search.lat,
+						search.lng,
+						place.geometry.location.lat,
+						place.geometry.location.lng,
+					) *
+						MILES_TO_METERS <=
+					search.radius,
+			)
+			if (!places.length) {
+				return json({ results: [], status: 'ZERO_RESULTS' })
+			}
+
+			const nextOffset = search.offset + PAGE_SIZE
+			return json({
+				results: places
+					.slice(search.offset, nextOffset)
+					// opening hours only come with place details
+					.map(({ photoReference, openingHours: _, ...place }) => ({
+						...place,
+						business_status: 'OPERATIONAL',
+						types: ['restaurant', 'food', 'point_of_interest', 'establishment'],
+						photos: [
+							{ height: 400, width: 400, photo_reference: photoReference },
+						],
+					})),
+				next_page_token:
+					nextOffset < places.length
+						? encodePageToken({
+								...search,
+								offset: nextOffset,
+								issuedAt: Date.now(),
+							})
+						: undefined,
+				status: 'OK',
+			})
+		},
+	),
+	http.get(
+		'https://maps.googleapis.com/maps/api/place/details/json',
+		async ({ request }) => {
+			if (passthroughGooglePlaces) return passthrough()
+			const url = new URL(request.url)
+			if (!hasValidKey(url)) {
+				return json({ status: 'REQUEST_DENIED' })
+			}
+
+			const placeId = url.searchParams.get('place_id')
+			const place = (await getMockPlaces()).find((p) => p.place_id === placeId)
+			if (!place) return json({ status: 'NOT_FOUND' })
+
+			return json({
+				result: {
+					photos: [
+						{ height: 400, width: 400, photo_reference: place.photoReference },
+					],
+					url: `https://maps.google.com/?q=${encodeURIComponent(place.name)}&ftid=${place.place_id}`,
+					// Google's periods use HHmm times
+					opening_hours: place.openingHours
+						? {
+								periods: place.openingHours.map(({ open, close }) => ({
+									open: { day: open.day, time: open.time.replace(':', '') },
+									close: close
+										? { day: close.day, time: close.time.replace(':', '') }
+										: undefined,
+								})),
+							}
+						: undefined,
+				},
+				status: 'OK',
+			})
+		},
+	),
+	http.get(
+		'https://maps.googleapis.com/maps/api/place/photo',
+		async ({ request }) => {
+			if (passthroughGooglePlaces) return passthrough()
+			const url = new URL(request.url)
+			if (!hasValidKey(url)) {
+				return new HttpResponse('Forbidden', { status: 403 })
+			}
+
+			const photoReference = url.searchParams.get('photoreference')
+			if (!photoReference?.startsWith('MOCK_PHOTO_')) {
+				return new HttpResponse('Bad Request', { status: 400 })
+			}
+
+			// pick a stable photo for each place from the fixture images
+			const photos = (await fs.readdir(PHOTOS_DIR)).sort()
+			const hash = [...photoReference].reduce(
+				(sum, char) => sum + char.charCodeAt(0),
+				0,
+			)
+			const photo = photos[hash % photos.length]!
+			const buffer = await fs.readFile(path.join(PHOTOS_DIR, photo))
+			return new HttpResponse(buffer, {
+				headers: { 'Content-Type': 'image/png' },
+			})
+		},
+	),
+]